@@ -0,0 +1,213 @@
+import {
+  CurrentToken,
+  ErrorMessageOptions,
+  Explanation,
+  explainHasAccessibleDescription,
+  explainHasAccessibleName,
+  explainHasAttribute,
+  explainHasClass,
+  explainHasCurrent,
+  explainHasDescription,
+  explainHasDisplayValue,
+  explainHasElement,
+  explainHasErrorMessage,
+  explainHasFocus,
+  explainHasFormValues,
+  explainHasRangeValue,
+  explainHasHTMLContent,
+  explainHasRole,
+  explainHasStyle,
+  explainHasTextContent,
+  explainHasValidationMessage,
+  explainHasValidity,
+  explainHasValue,
+  explainIsAccessible,
+  explainIsBusy,
+  explainIsChecked,
+  explainIsDisabled,
+  explainIsEmptyDomElement,
+  explainIsEnabled,
+  explainIsExpanded,
+  explainIsExposedToAccessibilityTree,
+  explainIsInaccessible,
+  explainIsInDocument,
+  explainIsInvalid,
+  explainIsPartiallyChecked,
+  explainIsPressed,
+  explainIsRequired,
+  explainIsSelected,
+  explainIsValid,
+  explainIsVisible,
+  HTMLContentOptions,
+  prettyDOM,
+  RangeValue,
+  TextMatch,
+  TextMatchOptions,
+  ValidityFlags,
+  VisibilityOptions
+} from './index';
+
+declare global {
+  namespace Chai {
+    interface Assertion {
+      accessible: Assertion;
+      busy: Assertion;
+      checked: Assertion;
+      disabled: Assertion;
+      emptyDomElement: Assertion;
+      enabled: Assertion;
+      expanded: Assertion;
+      exposedToAccessibilityTree: Assertion;
+      focus: Assertion;
+      inaccessible: Assertion;
+      inDocument: Assertion;
+      invalid: Assertion;
+      partiallyChecked: Assertion;
+      pressed: Assertion;
+      required: Assertion;
+      selected: Assertion;
+      valid: Assertion;
+      visible: Assertion;
+      visibleWith(options: VisibilityOptions): Assertion;
+      accessibleDescription(
+        expected?: TextMatch,
+        options?: TextMatchOptions
+      ): Assertion;
+      accessibleName(
+        expected?: TextMatch,
+        options?: TextMatchOptions
+      ): Assertion;
+      attribute(
+        name: string,
+        expected?: TextMatch,
+        options?: TextMatchOptions
+      ): Assertion;
+      class(name: string | RegExp): Assertion;
+      current(expected?: CurrentToken | true): Assertion;
+      description(
+        description: TextMatch,
+        options?: TextMatchOptions
+      ): Assertion;
+      descendant(descendant: any): Assertion;
+      displayValue(
+        value: TextMatch | TextMatch[],
+        options?: TextMatchOptions
+      ): Assertion;
+      errorMessage(
+        message: TextMatch,
+        options?: ErrorMessageOptions
+      ): Assertion;
+      formValues(expected: Record<string, any>): Assertion;
+      rangeValue(expected: RangeValue): Assertion;
+      htmlContent(html: string, options?: HTMLContentOptions): Assertion;
+      role(role: string): Assertion;
+      style(
+        expectedStyles: string | Record<string, string | RegExp>
+      ): Assertion;
+      textContent(text: TextMatch, options?: TextMatchOptions): Assertion;
+      validationMessage(
+        expected: TextMatch,
+        options?: TextMatchOptions
+      ): Assertion;
+      validity(expected: ValidityFlags): Assertion;
+      value(value: string | string[] | number): Assertion;
+    }
+  }
+}
+
+const describeSubject = (subject: any) => {
+  const elem = Array.isArray(subject) ? subject[0] : subject;
+  return prettyDOM(elem);
+};
+
+const assertExplanation = (
+  assertion: Chai.AssertionStatic,
+  description: string,
+  result: Explanation<unknown, unknown>
+) => {
+  const subject = describeSubject(assertion._obj);
+  assertion.assert(
+    result.pass,
+    `expected element to ${description}: ${result.reason}\n${subject}`,
+    `expected element not to ${description}: ${result.reason}\n${subject}`,
+    result.expected,
+    result.actual,
+    typeof result.expected !== 'boolean'
+  );
+};
+
+const properties: Record<
+  string,
+  [description: string, explain: (elem: any) => Explanation<unknown, unknown>]
+> = {
+  accessible: ['be accessible', explainIsAccessible],
+  busy: ['be busy', explainIsBusy],
+  checked: ['be checked', explainIsChecked],
+  disabled: ['be disabled', explainIsDisabled],
+  emptyDomElement: ['be an empty DOM element', explainIsEmptyDomElement],
+  enabled: ['be enabled', explainIsEnabled],
+  expanded: ['be expanded', explainIsExpanded],
+  exposedToAccessibilityTree: [
+    'be exposed to the accessibility tree',
+    explainIsExposedToAccessibilityTree
+  ],
+  focus: ['have focus', explainHasFocus],
+  inaccessible: ['be inaccessible', explainIsInaccessible],
+  inDocument: ['be in the document', explainIsInDocument],
+  invalid: ['be invalid', explainIsInvalid],
+  partiallyChecked: ['be partially checked', explainIsPartiallyChecked],
+  pressed: ['be pressed', explainIsPressed],
+  required: ['be required', explainIsRequired],
+  selected: ['be selected', explainIsSelected],
+  valid: ['be valid', explainIsValid],
+  visible: ['be visible', explainIsVisible]
+};
+
+const methods: Record<
+  string,
+  [
+    description: string,
+    explain: (elem: any, ...args: any[]) => Explanation<unknown, unknown>
+  ]
+> = {
+  accessibleDescription: [
+    'have an accessible description',
+    explainHasAccessibleDescription
+  ],
+  accessibleName: ['have an accessible name', explainHasAccessibleName],
+  attribute: ['have an attribute', explainHasAttribute],
+  class: ['have a class', explainHasClass],
+  current: ['be current', explainHasCurrent],
+  description: ['have a description', explainHasDescription],
+  descendant: ['have a descendant', explainHasElement],
+  displayValue: ['have a display value', explainHasDisplayValue],
+  errorMessage: ['have an error message', explainHasErrorMessage],
+  formValues: ['have form values', explainHasFormValues],
+  rangeValue: ['have a range value', explainHasRangeValue],
+  htmlContent: ['have HTML content', explainHasHTMLContent],
+  role: ['have a role', explainHasRole],
+  style: ['have styles', explainHasStyle],
+  textContent: ['have text content', explainHasTextContent],
+  validationMessage: ['have a validation message', explainHasValidationMessage],
+  validity: ['have validity', explainHasValidity],
+  value: ['have a value', explainHasValue],
+  visibleWith: ['be visible', explainIsVisible]
+};
+
+/**
+ * Chai plugin to register the predicates as chainable properties and methods, e.g.
+ * `expect(elem).to.be.visible` or `expect(form).to.have.formValues({ ... })`
+ * @param chai the chai instance given to chai.use
+ */
+export const chaiDomTesting: Chai.ChaiPlugin = (chai) => {
+  Object.entries(properties).forEach(([name, [description, explain]]) =>
+    chai.Assertion.addProperty(name, function () {
+      assertExplanation(this, description, explain(this._obj));
+    })
+  );
+  Object.entries(methods).forEach(([name, [description, explain]]) =>
+    chai.Assertion.addMethod(name, function (...args: any[]) {
+      assertExplanation(this, description, explain(this._obj, ...args));
+    })
+  );
+};
@@ -1,33 +1,180 @@
+import * as FakeTimers from '@sinonjs/fake-timers';
+import * as chai from 'chai';
 import { suite } from 'uvu';
 import * as assert from 'uvu/assert';
 
 import {
+  auditAccessibility,
+  ErrorMessageSource,
+  explainHasAccessibleName,
+  explainHasDisplayValue,
+  explainHasErrorMessage,
+  explainHasFormValues,
+  explainHasHTMLContent,
+  explainHasRangeValue,
+  explainHasStyle,
+  explainHasTextContent,
+  explainHasValidity,
+  explainIsChecked,
+  explainIsDisabled,
+  explainIsExpanded,
+  explainIsInDocument,
+  explainIsInaccessible,
+  explainIsInvalid,
+  explainIsVisible,
+  fillForm,
+  getAccessibilityTree,
+  getFormValues,
+  getRole,
   hasAccessibleDescription,
   hasAccessibleName,
   hasAttribute,
   hasClass,
+  hasCurrent,
   hasDescription,
   hasDisplayValue,
   hasElement,
   hasErrorMessage,
+  hasFocus,
   hasFormValues,
   hasHTMLContent,
+  hasRangeValue,
+  hasRole,
   hasStyle,
   hasTextContent,
+  hasValidationMessage,
+  hasValidity,
   hasValue,
+  isAccessible,
+  isBusy,
   isChecked,
   isDisabled,
   isEmpty,
   isEmptyDomElement,
+  isEnabled,
+  isExpanded,
+  isExposedToAccessibilityTree,
+  isInaccessible,
   isInDocument,
   isInvalid,
+  isPartiallyChecked,
+  isPressed,
   isRequired,
+  isSelected,
   isValid,
-  isVisible
+  isVisible,
+  prettyDOM,
+  submitForm,
+  waitFor,
+  waitForElementToBeRemoved
 } from './index';
+import { chaiDomTesting } from './chai';
+import { domSerializer, matchers } from './matchers';
+import {
+  findByRole,
+  getAllByRole,
+  getByRole,
+  queryAllByRole,
+  queryByRole
+} from './queries';
+import {
+  assertChecked,
+  assertHasAccessibleName,
+  assertHasFormValues,
+  assertHasValue,
+  assertVisible
+} from './uvu';
 
 type ElementContext = { elements: HTMLElement[] };
 
+const testGetRole = suite<ElementContext>('getRole');
+
+testGetRole.before((context) => {
+  const div = document.createElement('div');
+
+  div.innerHTML = `
+    <div role="switch checkbox" data-role="switch"></div>
+    <button data-role="button"></button>
+    <a href="#" data-role="link"></a>
+    <a data-role="generic"></a>
+    <input type="checkbox" data-role="checkbox" />
+    <input type="radio" data-role="radio" />
+    <input type="text" data-role="textbox" />
+    <input type="text" list="suggestions" data-role="combobox" />
+    <input type="search" data-role="searchbox" />
+    <input type="number" data-role="spinbutton" />
+    <input type="range" data-role="slider" />
+    <input type="submit" data-role="button" />
+    <input type="hidden" data-role="" />
+    <select data-role="combobox"></select>
+    <select multiple data-role="listbox"></select>
+    <select size="3" data-role="listbox"></select>
+    <textarea data-role="textbox"></textarea>
+    <header data-role="banner"></header>
+    <footer data-role="contentinfo"></footer>
+    <article data-role="article">
+      <header data-role="generic"></header>
+      <footer data-role="generic"></footer>
+    </article>
+    <nav data-role="navigation"></nav>
+    <section data-role="generic"></section>
+    <section aria-label="named" data-role="region"></section>
+    <ul data-role="list"><li data-role="listitem"></li></ul>
+    <img alt="" data-role="presentation" />
+    <img alt="image" data-role="img" />
+    <table data-role="table">
+      <tr data-role="row"><th data-role="columnheader"></th><th scope="row" data-role="rowheader"></th><td data-role="cell"></td></tr>
+    </table>
+    <table role="grid" data-role="grid">
+      <tr data-role="row"><td data-role="gridcell"></td></tr>
+    </table>
+    <h2 data-role="heading"></h2>`;
+
+  context.elements = Array.from(div.querySelectorAll('[data-role]'));
+});
+
+testGetRole('will return the correct roles', ({ elements }) =>
+  elements.forEach((elem) => {
+    const result = elem.getAttribute('data-role') || null;
+    const message = `wrong role for ${elem.outerHTML}`;
+
+    assert.is(getRole(elem), result, message);
+  })
+);
+
+testGetRole('will return null for non-elements', () =>
+  assert.is(getRole(null), null, 'role for no element')
+);
+
+testGetRole.run();
+
+const testHasRole = suite<ElementContext>('hasRole');
+
+testHasRole.before((context) => {
+  const div = document.createElement('div');
+  div.innerHTML = '<nav></nav><div role="button"></div>';
+
+  context.elements = Array.from(div.querySelectorAll('*'));
+});
+
+testHasRole('will return true for implicit roles', ({ elements }) => {
+  assert.is(hasRole(elements[0], 'navigation'), true, 'no role match');
+});
+
+testHasRole('will return true for explicit roles', ({ elements }) => {
+  assert.is(hasRole(elements[1], 'button'), true, 'no role match');
+});
+
+testHasRole('will return false for other roles', ({ elements }) => {
+  assert.is(hasRole(elements[1], 'generic'), false, 'wrong role match');
+});
+
+testHasRole('will return false for non-elements', () => {
+  assert.is(hasRole(null, 'button'), false, 'role match for no element');
+});
+
+testHasRole.run();
+
 const testIsChecked = suite<ElementContext>('isChecked');
 
 testIsChecked.before((context) => {
@@ -37,7 +184,7 @@ testIsChecked.before((context) => {
     <input type="checkbox" name="checkbox-checked" value="true" checked />
     <input type="radio" name="radio-checked" value="true" checked="checked" />
     <input type="checkbox" name="checkbox-unchecked" value="false" />
-    <input type="radio" name="radio-unchecked" value="false" checked="false" />
+    <input type="radio" name="radio-checked-attribute-false" value="true" checked="false" />
     <input type="text" name="text" value="false" />
     <div></div>`;
 
@@ -54,8 +201,62 @@ testIsChecked('will get the correct results', ({ elements }) =>
   })
 );
 
+testIsChecked('will use the live checked property', ({ elements }) => {
+  const checkbox = elements[2] as HTMLInputElement;
+  checkbox.checked = true;
+  assert.is(isChecked(checkbox), true, 'checked property ignored');
+  checkbox.checked = false;
+  assert.is(isChecked(elements[0]), true, 'other checkbox changed');
+});
+
+testIsChecked('will honor aria-checked for checkable roles', () => {
+  const div = document.createElement('div');
+  div.innerHTML = `
+    <div role="checkbox" aria-checked="true"></div>
+    <div role="switch" aria-checked="false"></div>
+    <div role="menuitemradio" aria-checked="true"></div>
+    <div aria-checked="true"></div>`;
+  const [checkbox, unchecked, menuitem, generic] = Array.from(div.children);
+  assert.is(isChecked(checkbox), true, 'aria-checked checkbox not checked');
+  assert.is(isChecked(unchecked), false, 'unchecked switch checked');
+  assert.is(
+    isChecked(menuitem),
+    true,
+    'aria-checked menuitemradio not checked'
+  );
+  assert.is(isChecked(generic), false, 'aria-checked honored without role');
+});
+
 testIsChecked.run();
 
+const testIsPartiallyChecked = suite<ElementContext>('isPartiallyChecked');
+
+testIsPartiallyChecked('will return the correct results', () => {
+  const div = document.createElement('div');
+  div.innerHTML = `
+    <input type="checkbox">
+    <div role="checkbox" aria-checked="mixed"></div>
+    <div role="switch" aria-checked="mixed"></div>
+    <div role="checkbox" aria-checked="true"></div>`;
+  const [input, mixed, mixedSwitch, checked] = Array.from(div.children);
+  assert.is(isPartiallyChecked(input), false, 'determinate input detected');
+  (input as HTMLInputElement).indeterminate = true;
+  assert.is(
+    isPartiallyChecked(input),
+    true,
+    'indeterminate input not detected'
+  );
+  assert.is(isPartiallyChecked(mixed), true, 'aria-checked mixed not detected');
+  assert.is(
+    isPartiallyChecked(mixedSwitch),
+    false,
+    'aria-checked mixed honored on switch'
+  );
+  assert.is(isPartiallyChecked(checked), false, 'checked detected as mixed');
+});
+
+testIsPartiallyChecked.run();
+
 const testIsDisabled = suite<ElementContext>('isDisabled');
 
 testIsDisabled.before((context) => {
@@ -64,12 +265,13 @@ testIsDisabled.before((context) => {
   div.innerHTML = `
     <input type="text" disabled name="disabled-text" value="true" />
     <div data-name="disabled-div" aria-disabled="true" data-value="true">
-      <button data-value="true">indirectly disabled button</button>
+      <button value="false">native button not disabled by aria-disabled</button>
+      <span role="button"></span>
     </div>
     <textarea name="enabled-select">false</textarea>`;
 
   context.elements = Array.from(
-    div.querySelectorAll('input, div, button, textarea')
+    div.querySelectorAll('input, div, button, span, textarea')
   );
 });
 
@@ -87,6 +289,43 @@ testIsDisabled('will return the correct results', ({ elements }) =>
   })
 );
 
+testIsDisabled('will follow the HTML rules for form controls', () => {
+  const div = document.createElement('div');
+  div.innerHTML = `
+    <fieldset disabled>
+      <legend><input name="in-legend"></legend>
+      <input name="in-fieldset">
+      <p name="paragraph-in-fieldset"></p>
+    </fieldset>
+    <select>
+      <optgroup disabled><option name="in-optgroup"></option></optgroup>
+      <option name="enabled-option"></option>
+    </select>
+    <div disabled><input name="in-div-with-disabled-attribute"></div>`;
+  const get = (name: string) => div.querySelector(`[name="${name}"]`);
+  assert.is(isDisabled(get('in-legend')), false, 'legend control disabled');
+  assert.is(isDisabled(get('in-fieldset')), true, 'fieldset control enabled');
+  assert.is(
+    isDisabled(get('paragraph-in-fieldset')),
+    false,
+    'non-form element disabled by fieldset'
+  );
+  assert.is(isDisabled(get('in-optgroup')), true, 'optgroup option enabled');
+  assert.is(isDisabled(get('enabled-option')), false, 'option disabled');
+  assert.is(
+    isDisabled(get('in-div-with-disabled-attribute')),
+    false,
+    'disabled attribute honored on div'
+  );
+});
+
+testIsDisabled('will return the complement with isEnabled', ({ elements }) => {
+  elements.forEach((elem) =>
+    assert.is(isEnabled(elem), !isDisabled(elem), 'not the complement')
+  );
+  assert.is(isEnabled(null), false, 'non-element enabled');
+});
+
 testIsDisabled.run();
 
 const testIsEmptyDomElement = suite<ElementContext>('isEmptyDomElement');
@@ -221,7 +460,7 @@ testIsValid.before((context) => {
 
 testIsValid('will return the correct results', ({ elements }) =>
   elements.forEach((elem, index) => {
-    const result = index !== 0;
+    const result = index === 1;
     const name = ['invalid input', 'valid input', 'invalid button'][index];
     const message = `wrong value for ${name}`;
 
@@ -229,6 +468,34 @@ testIsValid('will return the correct results', ({ elements }) =>
   })
 );
 
+testIsValid('will return false for elements that cannot be validated', () => {
+  const div = document.createElement('div');
+  div.innerHTML = '<span aria-invalid="false"></span>';
+  assert.is(isValid(div), false, 'div is valid');
+  assert.is(isInvalid(div), false, 'div is invalid');
+  assert.is(isValid(div.firstElementChild), true, 'span is not valid');
+  assert.is(isValid(null), false, 'non-element is valid');
+});
+
+testIsValid('will aggregate the fields of forms and fieldsets', () => {
+  const div = document.createElement('div');
+  div.innerHTML = `<form>
+    <fieldset><input name="first" required /></fieldset>
+    <fieldset><input name="second" /></fieldset>
+    <input name="third" aria-invalid="true" />
+  </form>`;
+  const form = div.querySelector('form');
+  const [invalid, valid] = Array.from(div.querySelectorAll('fieldset'));
+  assert.is(isInvalid(form), true, 'form is not invalid');
+  assert.is(isInvalid(invalid), true, 'fieldset is not invalid');
+  assert.is(isValid(valid), true, 'fieldset is not valid');
+  assert.is(
+    explainIsInvalid(form).reason,
+    '<form> has invalid fields: <input name="first">: Constraints not satisfied; <input name="third">: aria-invalid="true"',
+    'wrong reason'
+  );
+});
+
 testIsValid.run();
 
 const testIsRequired = suite<ElementContext>('isRequired');
@@ -263,8 +530,112 @@ testIsRequired('will return the correct results', ({ elements }) =>
   })
 );
 
+testIsRequired('will use the implicit role for aria-required', () => {
+  const div = document.createElement('div');
+  div.innerHTML =
+    '<ul aria-required="true"></ul><select aria-required="true"></select>';
+  assert.is(isRequired(div.children[0]), false, 'wrong value for list');
+  assert.is(isRequired(div.children[1]), true, 'wrong value for select');
+});
+
 testIsRequired.run();
 
+const testIsBusy = suite<ElementContext>('isBusy');
+
+testIsBusy('will return the correct results', () => {
+  const div = document.createElement('div');
+  div.innerHTML = '<p aria-busy="true"></p><p aria-busy="false"></p>';
+  const [busy, idle] = Array.from(div.querySelectorAll('p'));
+  assert.is(isBusy(busy), true, 'busy element not detected');
+  assert.is(isBusy(idle), false, 'idle element detected as busy');
+  assert.is(isBusy(null), false, 'non-element detected as busy');
+});
+
+testIsBusy.run();
+
+const testIsExpanded = suite<ElementContext>('isExpanded');
+
+testIsExpanded.before((context) => {
+  const div = document.createElement('div');
+
+  div.innerHTML = `
+    <button aria-expanded="true" data-name="expanded button" data-expanded="true"></button>
+    <button aria-expanded="false" data-name="collapsed button"></button>
+    <div role="combobox" aria-expanded="true" data-name="expanded combobox" data-expanded="true"></div>
+    <p aria-expanded="true" data-name="paragraph not supporting aria-expanded"></p>
+    <details open><summary data-name="summary of open details" data-expanded="true"></summary></details>
+    <details><summary data-name="summary of closed details"></summary></details>`;
+
+  context.elements = Array.from(div.querySelectorAll('[data-name]'));
+});
+
+testIsExpanded('will return the correct results', ({ elements }) =>
+  elements.forEach((elem) => {
+    const message = `wrong value for ${elem.getAttribute('data-name')}`;
+    assert.is(isExpanded(elem), elem.hasAttribute('data-expanded'), message);
+  })
+);
+
+testIsExpanded('will explain unsupported roles', ({ elements }) => {
+  assert.is(
+    explainIsExpanded(elements[3]).reason,
+    '<p> with role paragraph does not support aria-expanded',
+    'wrong reason'
+  );
+  assert.is(
+    explainIsExpanded(elements[1]).reason,
+    '<button> is collapsed',
+    'wrong reason'
+  );
+});
+
+testIsExpanded.run();
+
+const testIsPressed = suite<ElementContext>('isPressed');
+
+testIsPressed('will return the correct results', () => {
+  const div = document.createElement('div');
+  div.innerHTML = `
+    <button aria-pressed="true"></button>
+    <button aria-pressed="mixed"></button>
+    <button aria-pressed="false"></button>
+    <div aria-pressed="true"></div>`;
+  const [pressed, mixed, released, div2] = Array.from(
+    div.querySelectorAll('button, div')
+  );
+  assert.is(isPressed(pressed), true, 'pressed button not detected');
+  assert.is(isPressed(mixed), false, 'mixed button detected as pressed');
+  assert.is(isPressed(mixed, 'mixed'), true, 'mixed button not detected');
+  assert.is(isPressed(released), false, 'released button detected');
+  assert.is(isPressed(div2), false, 'aria-pressed honored on div');
+});
+
+testIsPressed.run();
+
+const testIsSelected = suite<ElementContext>('isSelected');
+
+testIsSelected('will return the correct results', () => {
+  const div = document.createElement('div');
+  div.innerHTML = `
+    <select><option>a</option><option selected>b</option></select>
+    <div role="tab" aria-selected="true"></div>
+    <div role="tab" aria-selected="false"></div>
+    <button aria-selected="true"></button>`;
+  const [a, b] = Array.from(div.querySelectorAll('option'));
+  const [selectedTab, tab] = Array.from(div.querySelectorAll('[role="tab"]'));
+  assert.is(isSelected(a), false, 'unselected option detected');
+  assert.is(isSelected(b), true, 'selected option not detected');
+  assert.is(isSelected(selectedTab), true, 'selected tab not detected');
+  assert.is(isSelected(tab), false, 'unselected tab detected');
+  assert.is(
+    isSelected(div.querySelector('button')),
+    false,
+    'aria-selected honored on button'
+  );
+});
+
+testIsSelected.run();
+
 const testIsVisible = suite<ElementContext>('isVisible');
 
 testIsVisible.before((context) => {
@@ -280,7 +651,22 @@ testIsVisible.before((context) => {
       <div data-name="invisible because of parent"></div>
     </span>
     <div class="zero-size" style="display: inline" data-name="visible because inline even though zero size" data-visible="true">Now you see me</div>
-    <div data-name="visible because default style" data-visible="true">visible</div>`;
+    <div data-name="visible because default style" data-visible="true">visible</div>
+    <div style="width: auto; height: auto" data-name="visible because auto size is not zero" data-visible="true">auto</div>
+    <div inert data-name="inert attribute">inert</div>
+    <div style="clip-path: inset(50%)" data-name="clipped by clip-path">screen reader only</div>
+    <div style="position: absolute; clip: rect(0 0 0 0)" data-name="clipped by clip with spaces">screen reader only</div>
+    <div style="position: absolute; clip: rect(0px, 0px, 0px, 0px)" data-name="clipped by clip with commas">screen reader only</div>
+    <section style="content-visibility: hidden"><div data-name="inside content-visibility hidden">skipped</div></section>
+    <div style="overflow: hidden; width: 1px; height: 1px" data-name="hidden by overflow of a 1px box">screen reader only</div>
+    <details>
+      <summary><div data-name="visible because in summary of closed details" data-visible="true">summary</div></summary>
+      <div data-name="hidden inside closed details">details</div>
+    </details>
+    <details open><div data-name="visible inside open details" data-visible="true">details</div></details>
+    <dialog><div data-name="hidden inside closed dialog">dialog</div></dialog>
+    <dialog open><div data-name="visible inside open dialog" data-visible="true">dialog</div></dialog>
+    <div style="display: contents; width: 0" data-name="visible because display contents" data-visible="true">contents</div>`;
 
   document.body.appendChild(div);
 
@@ -303,8 +689,267 @@ testIsVisible('will return the correct results', ({ elements }) =>
   })
 );
 
+testIsVisible('will allow to opt out of rules', () => {
+  const div = document.createElement('div');
+  div.innerHTML = `<div inert></div><dialog style="display: block"></dialog><details><p></p></details><section style="content-visibility: hidden"><span>skipped</span></section><b style="position: absolute; clip: rect(0 0 0 0)">clipped</b>`;
+  document.body.appendChild(div);
+  assert.is(
+    isVisible(div.querySelector('[inert]'), { inert: false }),
+    true,
+    'inert not ignored'
+  );
+  assert.is(
+    isVisible(div.querySelector('dialog'), { dialog: false }),
+    true,
+    'dialog not ignored'
+  );
+  assert.is(
+    isVisible(div.querySelector('p'), { details: false }),
+    true,
+    'details not ignored'
+  );
+  assert.is(
+    isVisible(div.querySelector('span'), { contentVisibility: false }),
+    true,
+    'content-visibility not ignored'
+  );
+  assert.is(
+    isVisible(div.querySelector('b'), { clip: false }),
+    true,
+    'clip not ignored'
+  );
+  document.body.removeChild(div);
+});
+
 testIsVisible.run();
 
+const testIsInaccessible = suite<ElementContext>('isInaccessible');
+
+testIsInaccessible.before((context) => {
+  const div = document.createElement('div');
+
+  div.innerHTML = `
+    <div hidden><p data-name="inside hidden attribute"></p></div>
+    <div aria-hidden="true"><p data-name="inside aria-hidden"></p></div>
+    <div inert><p data-name="inside inert"></p></div>
+    <div style="display: none"><p data-name="inside display none"></p></div>
+    <p style="visibility: hidden" data-name="visibility hidden"></p>
+    <div style="visibility: hidden"><p style="visibility: visible" data-name="visibility overridden" data-exposed="true"></p></div>
+    <p role="presentation" data-name="presentational" data-exposed="true"></p>
+    <table role="presentation"><tr><td><p data-name="inside presentational table" data-exposed="true"></p></td></tr></table>
+    <p role="none" tabindex="0" data-name="presentational but focusable" data-exposed="true"></p>
+    <div aria-hidden="false"><p data-name="inside aria-hidden false" data-exposed="true"></p></div>
+    <p style="opacity: 0" data-name="transparent" data-exposed="true"></p>`;
+
+  document.body.appendChild(div);
+
+  context.elements = [
+    ...Array.from(div.querySelectorAll<HTMLElement>('p')),
+    document.createElement('p')
+  ];
+  context.elements[context.elements.length - 1].setAttribute(
+    'data-name',
+    'detached from the document'
+  );
+  context.elements[context.elements.length - 1].setAttribute(
+    'data-exposed',
+    'true'
+  );
+});
+
+testIsInaccessible('will return the correct results', ({ elements }) =>
+  elements.forEach((elem) => {
+    const exposed = elem.hasAttribute('data-exposed');
+    const message = `wrong value for ${elem.getAttribute('data-name')}`;
+    assert.is(isInaccessible(elem), !exposed, message);
+    assert.is(isExposedToAccessibilityTree(elem), exposed, message);
+  })
+);
+
+testIsInaccessible(
+  'will expose interactive children of presentational containers',
+  () => {
+    const div = document.createElement('div');
+    div.innerHTML =
+      '<table role="presentation"><tr><td><button>Save</button></td></tr></table>';
+    document.body.appendChild(div);
+    assert.is(
+      isInaccessible(div.querySelector('table')),
+      false,
+      'presentational table inaccessible'
+    );
+    assert.is(
+      isInaccessible(div.querySelector('button')),
+      false,
+      'button inaccessible'
+    );
+    document.body.removeChild(div);
+  }
+);
+
+testIsInaccessible('will name the ancestor hiding the element', () => {
+  const div = document.createElement('div');
+  div.innerHTML = '<main id="background" aria-hidden="true"><p></p></main>';
+  document.body.appendChild(div);
+  const result = explainIsInaccessible(div.querySelector('p'));
+  assert.is(result.pass, true, 'wrong pass value');
+  assert.is(
+    result.reason,
+    '<main#background> has aria-hidden="true"',
+    'wrong reason'
+  );
+  document.body.removeChild(div);
+});
+
+testIsInaccessible.run();
+
+const testGetAccessibilityTree = suite<ElementContext>('getAccessibilityTree');
+
+testGetAccessibilityTree.before((context) => {
+  const div = document.createElement('div');
+
+  div.innerHTML = `
+    <h2>Settings</h2>
+    <form aria-label="Preferences">
+      <label><input type="checkbox" checked> Agree</label>
+      <div>
+        <button disabled aria-describedby="hint">Save</button>
+        <span id="hint">saves all settings</span>
+      </div>
+      <ul aria-hidden="true"><li>hidden</li></ul>
+      <button aria-expanded="false" aria-pressed="true"><b>More</b></button>
+    </form>`;
+
+  document.body.appendChild(div);
+
+  context.elements = [div];
+});
+
+testGetAccessibilityTree.after(({ elements }) => {
+  document.body.removeChild(elements[0]);
+});
+
+testGetAccessibilityTree('will serialize the tree', ({ elements }) => {
+  assert.snapshot(
+    getAccessibilityTree(elements[0]),
+    [
+      'heading "Settings" [level=2]',
+      'form "Preferences"',
+      '  checkbox "Agree" [checked]',
+      '  text "Agree"',
+      '  button "Save" description="saves all settings" [disabled]',
+      '  text "saves all settings"',
+      '  button "More" [expanded=false, pressed]'
+    ].join('\n'),
+    'wrong tree'
+  );
+});
+
+testGetAccessibilityTree(
+  'will keep the content of presentational elements',
+  () => {
+    const div = document.createElement('div');
+    div.innerHTML = `
+      <table role="presentation"><tr><td><button>Save</button></td></tr></table>
+      <ul role="none"><li><a href="/">Home</a></li></ul>
+      <div aria-hidden="true"><button>Hidden</button></div>`;
+    assert.snapshot(
+      getAccessibilityTree(div),
+      ['button "Save"', 'link "Home"'].join('\n'),
+      'wrong tree'
+    );
+  }
+);
+
+testGetAccessibilityTree.run();
+
+const testAuditAccessibility = suite<ElementContext>('auditAccessibility');
+
+testAuditAccessibility.before((context) => {
+  const div = document.createElement('div');
+
+  div.innerHTML = `
+    <button id="icon"><svg></svg></button>
+    <input id="name" aria-describedby="missing">
+    <p id="name"></p>
+    <img src="logo.png">
+    <a href="#" tabindex="2">skip</a>
+    <label>Email <input type="email"></label>
+    <img src="spacer.gif" alt="">
+    <button hidden></button>`;
+
+  document.body.appendChild(div);
+
+  context.elements = [div];
+});
+
+testAuditAccessibility.after(({ elements }) => {
+  document.body.removeChild(elements[0]);
+});
+
+testAuditAccessibility('will list all violations', ({ elements }) => {
+  assert.equal(
+    auditAccessibility(elements[0]).map(({ rule, message }) => [rule, message]),
+    [
+      [
+        'accessible-name',
+        '<button#icon> with role button has no accessible name'
+      ],
+      ['duplicate-id', 'id "name" is used by 2 elements'],
+      [
+        'aria-reference',
+        '<input#name> references missing ids: aria-describedby="missing"'
+      ],
+      ['label', '<input#name> has no label'],
+      ['duplicate-id', 'id "name" is used by 2 elements'],
+      ['image-alt', '<img> has no alt attribute'],
+      ['tabindex', '<a> has a positive tabindex (2)']
+    ],
+    'wrong violations'
+  );
+});
+
+testAuditAccessibility('will only check the given rules', ({ elements }) => {
+  const violations = auditAccessibility(elements[0], {
+    rules: ['image-alt']
+  });
+  assert.is(violations.length, 1, 'wrong number of violations');
+  assert.is(
+    violations[0].element,
+    elements[0].querySelector('img'),
+    'wrong element'
+  );
+});
+
+testAuditAccessibility(
+  'will return a boolean with isAccessible',
+  ({ elements }) => {
+    assert.is(isAccessible(elements[0]), false, 'violations not found');
+    assert.is(
+      isAccessible(elements[0].querySelector('label') as HTMLElement),
+      true,
+      'false violations found'
+    );
+    assert.is(
+      isAccessible(elements[0], { rules: ['tabindex'] }),
+      false,
+      'rule not applied'
+    );
+  }
+);
+
+testAuditAccessibility('will check detached containers', () => {
+  const div = document.createElement('div');
+  div.innerHTML = '<button></button><input><img src="logo.png">';
+  assert.equal(
+    auditAccessibility(div).map(({ rule }) => rule),
+    ['accessible-name', 'label', 'image-alt'],
+    'wrong violations'
+  );
+});
+
+testAuditAccessibility.run();
+
 const testHasAccessibleDescription = suite<ElementContext>(
   'hasAccessibleDescription'
 );
@@ -333,7 +978,7 @@ testHasAccessibleDescription.after(({ elements }) => {
     ({ elements }) => {
       const input = elements[1];
       const message = [
-        'accessible description not longer than 3 characters',
+        'accessible description not present',
         'accessible description does not match string',
         'accessible description does not match regex'
       ][index];
@@ -525,11 +1170,10 @@ testHasClass.before((context) => {
     Object.assign(document.createElement('div'), {
       className: 'test test2 test-3'
     }),
-    Object.assign(
-      document.createElementNS('http://www.w3.org/2000/svg', 'path'),
-      { className: 'test2' }
-    )
+    document.createElementNS('http://www.w3.org/2000/svg', 'path')
   ];
+  // className is a read-only SVGAnimatedString on svg elements
+  context.elements[1].setAttribute('class', 'test2');
 });
 
 testHasClass('will return true for string', ({ elements }) => {
@@ -558,7 +1202,7 @@ testHasClass('will return true for regex', ({ elements }) => {
 
 testHasClass('will return true for svg element', ({ elements }) => {
   assert.is(
-    hasClass(elements[1], /test-\d$/),
+    hasClass(elements[1], /^test\d$/),
     true,
     'wrong value for regex based class check'
   );
@@ -573,17 +1217,41 @@ testHasClass('will return false for regex', ({ elements }) => {
 });
 
 testHasClass('will return false for non-element', () => {
-  testHasClass('will return true for regex', () => {
-    assert.is(
-      hasClass(null, 'none'),
-      false,
-      'wrong value for string based class check'
-    );
-  });
+  assert.is(
+    hasClass(null, 'none'),
+    false,
+    'wrong value for string based class check'
+  );
+  assert.is(
+    hasClass(null, /none/),
+    false,
+    'wrong value for regex based class check'
+  );
 });
 
 testHasClass.run();
 
+const testHasCurrent = suite<ElementContext>('hasCurrent');
+
+testHasCurrent('will return the correct results', () => {
+  const div = document.createElement('div');
+  div.innerHTML = `
+    <a href="/" aria-current="page"></a>
+    <li aria-current="step"></li>
+    <a href="/" aria-current="false"></a>
+    <a href="/" aria-current="yes"></a>`;
+  const [page, step, none, unknown] = Array.from(div.children);
+  assert.is(hasCurrent(page), true, 'current page not detected');
+  assert.is(hasCurrent(page, 'page'), true, 'current page token not matched');
+  assert.is(hasCurrent(page, 'step'), false, 'wrong token matched');
+  assert.is(hasCurrent(step, 'step'), true, 'current step not matched');
+  assert.is(hasCurrent(none), false, 'aria-current false detected');
+  assert.is(hasCurrent(unknown), true, 'unknown token not treated as true');
+  assert.is(hasCurrent(unknown, 'page'), false, 'unknown token matched');
+});
+
+testHasCurrent.run();
+
 const testHasDescription = suite<ElementContext>('hasDescription');
 
 testHasDescription.before((context) => {
@@ -792,14 +1460,38 @@ testHasDisplayValue('returns false for non-element', () => {
   );
 });
 
-testHasDisplayValue.run();
-
-const testHasElement = suite<ElementContext>('hasElement');
-
-testHasElement.before((context) => {
-  const div = document.createElement('div');
-  div.innerHTML = `
-    <div id="ancestor">
+testHasDisplayValue('will explain each value', ({ elements }) => {
+  const [input, , multiple] = elements;
+  assert.is(
+    explainHasDisplayValue(input, 'one').reason,
+    "display value: 'this is one value' contains 'one'",
+    'wrong reason for substring'
+  );
+  assert.is(
+    explainHasDisplayValue(input, 'one', { exact: true }).reason,
+    "display value: expected 'one', got 'this is one value'",
+    'exact option ignored'
+  );
+  assert.is(
+    explainHasDisplayValue(input, (text) => text.startsWith('that')).reason,
+    "display value: 'this is one value' does not match the matcher function",
+    'wrong reason for matcher function'
+  );
+  assert.is(
+    explainHasDisplayValue(multiple, ['one', /^t/, 'four', 'five']).reason,
+    'display value 4: expected a value, got none',
+    'wrong reason for multiple values'
+  );
+});
+
+testHasDisplayValue.run();
+
+const testHasElement = suite<ElementContext>('hasElement');
+
+testHasElement.before((context) => {
+  const div = document.createElement('div');
+  div.innerHTML = `
+    <div id="ancestor">
       <div id="descendant"></div>
     </div>
     <div id="orphan"></div>`;
@@ -950,6 +1642,77 @@ testHasErrorMessage('will return false for no dom-element', () => {
   assert.is(hasErrorMessage(null, ''), false, 'match for no element');
 });
 
+testHasErrorMessage('will ignore hidden error messages', () => {
+  const div = document.createElement('div');
+  document.body.appendChild(div);
+  div.innerHTML = `<input aria-errormessage="hidden" aria-invalid="true" />
+    <span id="hidden" style="display: none">hidden error</span>`;
+  assert.is(
+    hasErrorMessage(div.firstElementChild, 'hidden error'),
+    false,
+    'match for hidden message'
+  );
+  document.body.removeChild(div);
+});
+
+testHasErrorMessage('will consider the given sources', () => {
+  const div = document.createElement('div');
+  document.body.appendChild(div);
+  div.innerHTML = `<p>
+      <input aria-describedby="name-hint" required />
+      <span id="name-hint">Enter your name</span>
+      <span role="alert">Name is missing</span>
+    </p>
+    <p><span aria-live="polite">Other field</span></p>`;
+  const input = div.querySelector('input');
+  assert.is(
+    hasErrorMessage(input, 'Enter your name'),
+    false,
+    'match for default source'
+  );
+  assert.is(
+    hasErrorMessage(input, 'Enter your name', { sources: ['describedby'] }),
+    true,
+    'no match for describedby'
+  );
+  assert.is(
+    hasErrorMessage(input, /\S/, { sources: ['validationMessage'] }),
+    true,
+    'no match for validationMessage'
+  );
+  assert.is(
+    hasErrorMessage(input, 'Name is missing', { sources: ['live'] }),
+    true,
+    'no match for live region'
+  );
+  assert.is(
+    hasErrorMessage(input, 'Other field', { sources: ['live'] }),
+    false,
+    'match for unrelated live region'
+  );
+  document.body.removeChild(div);
+});
+
+testHasErrorMessage('will explain which source matched', () => {
+  const div = document.createElement('div');
+  document.body.appendChild(div);
+  div.innerHTML = `<input aria-invalid="true" aria-describedby="length" />
+    <span id="length">Too short</span>`;
+  const input = div.querySelector('input');
+  const sources: ErrorMessageSource[] = ['errormessage', 'describedby'];
+  assert.is(
+    explainHasErrorMessage(input, 'short', { sources }).reason,
+    "error message from describedby: 'Too short' contains 'short'",
+    'wrong reason for match'
+  );
+  assert.is(
+    explainHasErrorMessage(input, 'long', { sources }).reason,
+    "error message from errormessage, describedby: expected to contain 'long', got 'Too short'",
+    'wrong reason for mismatch'
+  );
+  document.body.removeChild(div);
+});
+
 testHasErrorMessage.run();
 
 const testHasFormValues = suite<
@@ -1033,6 +1796,503 @@ testHasFormValues('will return false for non-form elements', () =>
 
 testHasFormValues.run();
 
+const testGetFormValues = suite<ElementContext>('getFormValues');
+
+testGetFormValues.before((context) => {
+  const div = document.createElement('div');
+
+  div.innerHTML = `
+    <form id="profile">
+      <input name="birthday" type="date" value="2000-01-31" />
+      <input name="volume" type="range" min="0" max="10" value="3" />
+      <input name="avatar" type="file" />
+      <input name="nickname" value="ignored" disabled />
+      <fieldset disabled><input name="inDisabledFieldset" value="ignored" /></fieldset>
+      <input name="terms" type="checkbox" checked />
+      <custom-field><input name="nested" value="inside custom element" /></custom-field>
+      <button name="submit" value="ignored">Save</button>
+    </form>
+    <input name="outside" form="profile" value="owned by form" />
+    <input name="unrelated" value="ignored" />`;
+  document.body.appendChild(div);
+
+  context.elements = [div.querySelector('form') as HTMLElement, div];
+});
+
+testGetFormValues.after(({ elements }) => {
+  document.body.removeChild(elements[1]);
+});
+
+testGetFormValues('will get typed values', ({ elements }) => {
+  assert.equal(
+    getFormValues(elements[0] as HTMLFormElement),
+    {
+      birthday: new Date('2000-01-31'),
+      volume: 3,
+      avatar: [],
+      terms: true,
+      nested: 'inside custom element',
+      outside: 'owned by form'
+    },
+    'wrong values'
+  );
+});
+
+testGetFormValues('will get native values', ({ elements }) => {
+  assert.equal(
+    getFormValues(elements[0] as HTMLFormElement, { types: 'native' }),
+    {
+      birthday: '2000-01-31',
+      volume: '3',
+      avatar: [],
+      terms: 'on',
+      nested: 'inside custom element',
+      outside: 'owned by form'
+    },
+    'wrong values'
+  );
+});
+
+testGetFormValues(
+  'will include aria-disabled fields and names of Object.prototype',
+  () => {
+    const form = document.createElement('form');
+    form.innerHTML = `
+      <input name="a" aria-disabled="true" value="x" />
+      <input name="toString" value="1" />
+      <input name="constructor" value="2" />`;
+    assert.equal(
+      getFormValues(form),
+      { a: 'x', toString: '1', constructor: '2' },
+      'wrong values'
+    );
+    assert.equal(
+      submitForm(form).entries,
+      [
+        ['a', 'x'],
+        ['toString', '1'],
+        ['constructor', '2']
+      ],
+      'wrong entries'
+    );
+  }
+);
+
+testGetFormValues('will treat a single radio button as a group', () => {
+  const form = document.createElement('form');
+  form.innerHTML = `
+    <input type="radio" name="plan" value="pro" />
+    <input type="checkbox" name="terms" />`;
+  assert.equal(
+    getFormValues(form),
+    { plan: undefined, terms: false },
+    'wrong unchecked values'
+  );
+  fillForm(form, { plan: 'pro', terms: true });
+  assert.equal(
+    getFormValues(form),
+    { plan: 'pro', terms: true },
+    'wrong checked values'
+  );
+});
+
+testGetFormValues(
+  'will be used by hasFormValues with deep equality',
+  ({ elements }) => {
+    const [form] = elements;
+    assert.is(
+      hasFormValues(form, { birthday: new Date('2000-01-31'), volume: 3 }),
+      true,
+      'typed values not matched'
+    );
+    assert.is(
+      hasFormValues(form, { outside: 'owned by form' }),
+      true,
+      'form owner not resolved'
+    );
+    assert.is(
+      hasFormValues(form, { avatar: ['a.png'] }),
+      false,
+      'arrays of different length matched'
+    );
+    assert.is(
+      hasFormValues(form, { volume: '3' }, { types: 'native' }),
+      true,
+      'native values not matched'
+    );
+  }
+);
+
+testGetFormValues.run();
+
+const testFillForm = suite<ElementContext & { events: string[] }>('fillForm');
+
+testFillForm.before.each((context) => {
+  const div = document.createElement('div');
+
+  div.innerHTML = `
+    <form>
+      <input name="name" />
+      <input name="age" type="number" />
+      <input name="birthday" type="date" />
+      <input name="newsletter" type="checkbox" />
+      <input name="topics" type="checkbox" value="news" />
+      <input name="topics" type="checkbox" value="sports" checked />
+      <input name="size" type="radio" value="s" checked />
+      <input name="size" type="radio" value="m" />
+      <select name="colors" multiple>
+        <option value="red">red</option>
+        <option value="blue">blue</option>
+      </select>
+      <select name="rating">
+        <option value="1">1</option>
+        <option value="2">2</option>
+      </select>
+      <textarea name="comment"></textarea>
+      <input name="avatar" type="file" />
+      <input name="locked" disabled />
+    </form>`;
+  document.body.appendChild(div);
+
+  context.events = [];
+  div.addEventListener('input', (event) =>
+    context.events.push(`input:${(event.target as HTMLInputElement).name}`)
+  );
+  context.elements = [div.querySelector('form') as HTMLElement, div];
+});
+
+testFillForm.after.each(({ elements }) => {
+  document.body.removeChild(elements[1]);
+});
+
+testFillForm('will fill the form with typed values', ({ elements }) => {
+  const values = {
+    name: 'Ada',
+    age: 36,
+    birthday: new Date('1815-12-10'),
+    newsletter: true,
+    topics: ['news'],
+    size: 'm',
+    colors: ['red', 'blue'],
+    comment: 'first!'
+  };
+  fillForm(elements[0] as HTMLFormElement, values);
+  assert.equal(
+    getFormValues(elements[0] as HTMLFormElement),
+    { ...values, rating: '1', avatar: [] },
+    'form not filled'
+  );
+});
+
+testFillForm(
+  'will dispatch bubbling input events for changed fields',
+  ({ elements, events }) => {
+    fillForm(elements[0] as HTMLFormElement, {
+      name: 'Ada',
+      topics: ['sports'],
+      size: 'm'
+    });
+    assert.equal(
+      events,
+      ['input:name', 'input:size'],
+      'wrong events dispatched'
+    );
+  }
+);
+
+testFillForm(
+  'will click checkboxes and radio buttons',
+  ({ elements, events }) => {
+    elements[1].addEventListener('click', (event) =>
+      events.push(`click:${(event.target as HTMLInputElement).name}`)
+    );
+    fillForm(elements[0] as HTMLFormElement, { newsletter: true, size: 'm' });
+    assert.equal(
+      events,
+      ['click:newsletter', 'input:newsletter', 'click:size', 'input:size'],
+      'wrong events dispatched'
+    );
+  }
+);
+
+testFillForm('will fill checkboxes of a detached form', () => {
+  const form = document.createElement('form');
+  form.innerHTML = '<input name="newsletter" type="checkbox" />';
+  const events: string[] = [];
+  form.addEventListener('change', () => events.push('change'));
+  fillForm(form, { newsletter: true });
+  assert.is(getFormValues(form).newsletter, true, 'checkbox not checked');
+  assert.equal(events, ['change'], 'change event not dispatched');
+});
+
+testFillForm('will throw for unknown or disabled fields', ({ elements }) => {
+  const form = elements[0] as HTMLFormElement;
+  assert.throws(
+    () => fillForm(form, { email: 'a@b.c' }),
+    /no field `email`/,
+    'unknown field filled'
+  );
+  assert.throws(
+    () => fillForm(form, { locked: 'open' }),
+    /field `locked` is disabled/,
+    'disabled field filled'
+  );
+  assert.throws(
+    () => fillForm(form, { size: 'xl' }),
+    /field `size` has no option 'xl'/,
+    'unknown option selected'
+  );
+  assert.throws(
+    () => fillForm(form, { colors: ['red', 'green'] }),
+    /field `colors` has no option 'green'/,
+    'unknown select option selected'
+  );
+  assert.equal(
+    getFormValues(form).colors,
+    [],
+    'select changed before throwing'
+  );
+  assert.throws(
+    () => fillForm(form, { rating: ['1', '2'] }),
+    /field `rating` is not a multiple select/,
+    'several values selected in single select'
+  );
+  assert.throws(
+    () => fillForm(form, { avatar: 'a.png' }),
+    /fillForm: field `avatar` is a file input/,
+    'file input filled'
+  );
+});
+
+testFillForm('will select options by number', ({ elements }) => {
+  const form = elements[0] as HTMLFormElement;
+  fillForm(form, { rating: 2 });
+  assert.is(getFormValues(form).rating, '2', 'option not selected');
+});
+
+testFillForm.run();
+
+const testSubmitForm = suite<ElementContext>('submitForm');
+
+testSubmitForm.before.each((context) => {
+  const div = document.createElement('div');
+
+  div.innerHTML = `
+    <form id="signup">
+      <input name="email" type="email" required />
+      <input name="topics" type="checkbox" value="news" checked />
+      <input name="topics" type="checkbox" value="sports" checked />
+      <button name="action" value="save">Save</button>
+      <button name="action" value="skip" formnovalidate>Skip</button>
+      <input name="map" type="image" alt="Map" formnovalidate />
+    </form>
+    <button form="signup" name="action" value="publish">Publish</button>`;
+  document.body.appendChild(div);
+
+  context.elements = [
+    div.querySelector('form') as HTMLElement,
+    ...Array.from(div.querySelectorAll('button')),
+    div
+  ];
+});
+
+testSubmitForm.after.each(({ elements }) => {
+  document.body.removeChild(elements[elements.length - 1]);
+});
+
+testSubmitForm('will report fields blocking submission', ({ elements }) => {
+  let submitted = false;
+  elements[0].addEventListener('submit', () => (submitted = true));
+  const result = submitForm(elements[0] as HTMLFormElement);
+  assert.is(result.submitted, false, 'invalid form submitted');
+  assert.is(submitted, false, 'submit event fired');
+  assert.is(
+    result.invalid[0].field,
+    elements[0].querySelector('input'),
+    'wrong invalid field'
+  );
+  assert.match(
+    result.invalid[0].reason,
+    '<input name="email"> is invalid',
+    'wrong reason'
+  );
+});
+
+testSubmitForm(
+  'will submit the entries including the submitter',
+  ({ elements }) => {
+    const form = elements[0] as HTMLFormElement;
+    let submitter: unknown;
+    form.addEventListener('submit', (event: any) => {
+      submitter = event.submitter;
+      event.preventDefault();
+    });
+    form.querySelector('input')!.value = 'a@b.c';
+    const result = submitForm(form, {
+      submitter: elements[3] as HTMLButtonElement
+    });
+    assert.is(result.submitted, false, 'canceled submission submitted');
+    assert.is(result.defaultPrevented, true, 'cancelation not reported');
+    assert.is(submitter, elements[3], 'wrong submitter');
+    assert.equal(
+      result.entries,
+      [
+        ['email', 'a@b.c'],
+        ['topics', 'news'],
+        ['topics', 'sports'],
+        ['action', 'publish']
+      ],
+      'wrong entries'
+    );
+  }
+);
+
+testSubmitForm('will skip validation with formnovalidate', ({ elements }) => {
+  const result = submitForm(elements[0] as HTMLFormElement, {
+    submitter: elements[2] as HTMLButtonElement
+  });
+  assert.is(result.submitted, true, 'form not submitted');
+  assert.equal(result.invalid, [], 'form validated');
+  assert.equal(
+    result.entries[result.entries.length - 1],
+    ['action', 'skip'],
+    'submitter entry missing'
+  );
+});
+
+testSubmitForm(
+  'will submit the coordinates of image buttons',
+  ({ elements }) => {
+    const form = elements[0] as HTMLFormElement;
+    const result = submitForm(form, {
+      submitter: form.querySelector('[type="image"]') as HTMLInputElement
+    });
+    assert.equal(
+      result.entries,
+      [
+        ['email', ''],
+        ['topics', 'news'],
+        ['topics', 'sports'],
+        ['map.x', '0'],
+        ['map.y', '0']
+      ],
+      'wrong entries'
+    );
+  }
+);
+
+testSubmitForm('will dispatch a SubmitEvent if supported', ({ elements }) => {
+  class SubmitEvent extends window.Event {
+    submitter: HTMLElement | null;
+    constructor(type: string, init: SubmitEventInit) {
+      super(type, init);
+      this.submitter = init.submitter ?? null;
+    }
+  }
+  const form = elements[0] as HTMLFormElement;
+  let received: Event | undefined;
+  form.addEventListener('submit', (event) => (received = event));
+  Object.assign(window, { SubmitEvent });
+  try {
+    submitForm(form, { submitter: elements[2] as HTMLButtonElement });
+  } finally {
+    delete (window as { SubmitEvent?: unknown }).SubmitEvent;
+  }
+  assert.instance(received, SubmitEvent, 'no SubmitEvent dispatched');
+  assert.is(
+    (received as SubmitEvent).submitter,
+    elements[2],
+    'wrong submitter'
+  );
+});
+
+testSubmitForm('will throw for foreign submitters', ({ elements }) => {
+  assert.throws(
+    () =>
+      submitForm(elements[0] as HTMLFormElement, {
+        submitter: document.createElement('button')
+      }),
+    /is not an enabled submit button/,
+    'foreign submitter accepted'
+  );
+});
+
+testSubmitForm.run();
+
+const testHasRangeValue = suite<ElementContext>('hasRangeValue');
+
+testHasRangeValue.before((context) => {
+  const div = document.createElement('div');
+
+  div.innerHTML = `
+    <div role="slider" aria-valuenow="30" aria-valuemin="0" aria-valuemax="50" aria-valuetext="30 degrees"></div>
+    <input type="range" min="10" max="20" value="15">
+    <progress value="0.5"></progress>
+    <meter min="0" max="10" value="7"></meter>
+    <div aria-valuenow="30"></div>
+    <hr>
+    <div role="separator" tabindex="0" aria-valuenow="40"></div>`;
+
+  context.elements = Array.from(div.children) as HTMLElement[];
+});
+
+testHasRangeValue('will read aria-value attributes', ({ elements }) => {
+  assert.is(
+    hasRangeValue(elements[0], {
+      now: 30,
+      min: 0,
+      max: 50,
+      text: '30 degrees'
+    }),
+    true,
+    'aria-value attributes not matched'
+  );
+  assert.is(
+    hasRangeValue(elements[0], { now: 40 }),
+    false,
+    'wrong value matched'
+  );
+});
+
+testHasRangeValue('will read native range elements', ({ elements }) => {
+  assert.is(
+    hasRangeValue(elements[1], { now: 15, min: 10, max: 20 }),
+    true,
+    'range input not matched'
+  );
+  assert.is(
+    hasRangeValue(elements[2], { now: 0.5, max: 1 }),
+    true,
+    'progress not matched'
+  );
+  assert.is(
+    hasRangeValue(elements[3], { now: 7, max: 10 }),
+    true,
+    'meter not matched'
+  );
+});
+
+testHasRangeValue('will ignore roles without range values', ({ elements }) => {
+  assert.is(
+    hasRangeValue(elements[4], { now: 30 }),
+    false,
+    'aria-valuenow honored on div'
+  );
+  assert.is(hasRangeValue(elements[5], {}), false, 'static separator matched');
+  assert.is(
+    hasRangeValue(elements[6], { now: 40 }),
+    true,
+    'focusable separator not matched'
+  );
+  assert.is(
+    explainHasRangeValue(elements[0], { now: 40 }).reason,
+    'range value now: expected 40, got 30',
+    'wrong reason'
+  );
+});
+
+testHasRangeValue.run();
+
 const testHasStyle = suite<ElementContext>('hasStyle');
 
 testHasStyle.before((context) => {
@@ -1046,7 +2306,7 @@ testHasStyle.before((context) => {
         content: 'Hello, World';
       }
     </style>
-    <div class="inline" style="position: absolute;"></div>
+    <div class="inline" style="position: absolute; margin: 0 4px; border: 1px solid #00f; background-color: #fff; --gap: 8px;"></div>
   `;
 
   context.elements = Array.from(div.querySelectorAll('div'));
@@ -1150,13 +2410,76 @@ testHasStyle(
   }
 );
 
-testHasStyle('will return false for a non-element', () => {
-  assert.is(hasStyle(null, 'color: black;'), false, 'wrong non-element match');
+testHasStyle(
+  'will normalize colors, zero lengths and number notation',
+  ({ elements }) => {
+    assert.is(
+      hasStyle(elements[0], { backgroundColor: '#fff', marginTop: '0' }),
+      true,
+      'color or length mismatch'
+    );
+    assert.is(
+      hasStyle(
+        elements[0],
+        'background-color: hsl(0, 0%, 100%); margin-left: 4.0px'
+      ),
+      true,
+      'color or number mismatch'
+    );
+    assert.is(
+      hasStyle(elements[0], { backgroundColor: '#000' }),
+      false,
+      'wrong color match'
+    );
+  }
+);
+
+testHasStyle('will accept camelCase and kebab-case keys', ({ elements }) => {
+  assert.is(
+    hasStyle(elements[0], {
+      backgroundColor: 'rgb(255, 255, 255)',
+      'background-color': 'rgb(255, 255, 255)'
+    }),
+    true,
+    'key mismatch'
+  );
+  assert.is(
+    hasStyle(elements[0], { backgroundColor: 'rgb(0, 0, 0)' }),
+    false,
+    'wrong camelCase match'
+  );
 });
 
-testHasStyle.run();
+testHasStyle('will compare shorthands by their longhands', ({ elements }) => {
+  assert.is(
+    hasStyle(elements[0], 'margin: 0 4px; border: 1px solid #0000ff'),
+    true,
+    'shorthand mismatch'
+  );
+  assert.is(
+    hasStyle(elements[0], { margin: '0' }),
+    false,
+    'wrong shorthand match'
+  );
+});
 
-const testHasHTMLContent = suite<ElementContext>('hasHTMLContent');
+testHasStyle('will compare custom properties', ({ elements }) => {
+  assert.is(hasStyle(elements[0], { '--gap': '8px' }), true, 'no match');
+  assert.is(hasStyle(elements[0], { '--gap': /^\d+px$/ }), true, 'no match');
+  assert.is(
+    hasStyle(elements[0], '--gap: 4px'),
+    false,
+    'wrong custom property match'
+  );
+});
+
+testHasStyle('will return false for a non-element', () => {
+  assert.is(hasStyle(null, 'color: black;'), false, 'wrong non-element match');
+});
+
+testHasStyle.run();
+
+const testHasHTMLContent = suite<ElementContext>('hasHTMLContent');
 
 testHasHTMLContent.before((context) => {
   const div = document.createElement('div');
@@ -1195,6 +2518,92 @@ testHasHTMLContent('returns true for non-element', ({ elements }) => {
   );
 });
 
+testHasHTMLContent(
+  'will compare the structure in semantic mode',
+  ({ elements }) => {
+    const div = document.createElement('div');
+    div.innerHTML = `<ul data-hk="0-1">
+      <li class="b a" id="x" hidden="hidden">one<!--#-->two</li>
+      <!--/-->
+    </ul>`;
+    assert.is(
+      hasHTMLContent(div, '<ul><li id="x" class="a b" hidden>onetwo</li></ul>'),
+      false,
+      'string comparison too lax'
+    );
+    assert.is(
+      hasHTMLContent(
+        div,
+        '<ul><li hidden id="x" class="a  b">onetwo</li></ul>',
+        { semantic: true }
+      ),
+      true,
+      'no semantic match'
+    );
+    assert.is(
+      hasHTMLContent(
+        div,
+        '<ul data-hk="0-1"><li id="x" class="a b" hidden>onetwo</li></ul>',
+        {
+          semantic: true,
+          ignoreAttributes: [/^data-/]
+        }
+      ),
+      true,
+      'ignored attribute pattern not ignored'
+    );
+    assert.is(
+      hasHTMLContent(
+        div,
+        '<ul><li id="x" class="a b" hidden>onetwo</li></ul>',
+        {
+          semantic: true,
+          ignoreComments: false
+        }
+      ),
+      false,
+      'comments ignored'
+    );
+    assert.is(
+      hasHTMLContent(elements[0], '', { semantic: true }),
+      false,
+      'empty content matched'
+    );
+  }
+);
+
+testHasHTMLContent('will explain the path of the first difference', () => {
+  const div = document.createElement('div');
+  div.innerHTML = '<ul><li>one</li><li title="a">two</li></ul>';
+  const explain = (html: string) =>
+    explainHasHTMLContent(div, html, { semantic: true }).reason;
+  assert.is(
+    explain('<ul><li>one</li><li title="b">two</li></ul>'),
+    "ul[0] > li[1] attribute `title`: expected 'b', got 'a'",
+    'wrong attribute difference'
+  );
+  assert.is(
+    explain('<ul><li>one</li><li title="a">three</li></ul>'),
+    "ul[0] > li[1] > #text[0]: expected 'three', got 'two'",
+    'wrong text difference'
+  );
+  assert.is(
+    explain('<ul><li>one</li></ul>'),
+    'ul[0] > li[1]: unexpected <li>',
+    'wrong unexpected node'
+  );
+  assert.is(
+    explain('<ul><li>one</li><p>two</p></ul>'),
+    'ul[0] > p[1]: expected <p>, got <li>',
+    'wrong node difference'
+  );
+  assert.is(
+    explain('<ul><li>one</li><li title="a">two</li></ul>'),
+    'HTML content is structurally equal',
+    'wrong equal reason'
+  );
+});
+
 testHasHTMLContent.run();
 
 const testHasTextContent = suite<ElementContext>('hasTextContent');
@@ -1229,6 +2638,169 @@ testHasTextContent('will return false for non-element', ({ elements }) => {
 
 testHasTextContent.run();
 
+const testTextMatch = suite<ElementContext>('text matching');
+
+testTextMatch.before((context) => {
+  const div = document.createElement('div');
+  document.body.appendChild(div);
+  div.innerHTML = `<p data-state="  Active  ">
+      Hello,
+      World
+    </p>
+    <button>OK</button>
+    <input value="  Jane   Doe " />`;
+  context.elements = [div, ...Array.from(div.children)] as HTMLElement[];
+});
+
+testTextMatch.after(({ elements }) => {
+  document.body.removeChild(elements[0]);
+});
+
+testTextMatch(
+  'will trim and collapse whitespace by default',
+  ({ elements }) => {
+    const [, p, , input] = elements;
+    assert.is(hasTextContent(p, 'Hello, World'), true, 'text not normalized');
+    assert.is(
+      hasAttribute(p, 'data-state', 'Active'),
+      true,
+      'attribute not normalized'
+    );
+    assert.is(hasDisplayValue(input, 'Jane Doe'), true, 'value not normalized');
+    assert.is(
+      hasTextContent(p, 'Hello, World', { trim: false }),
+      false,
+      'text trimmed'
+    );
+    assert.is(
+      hasTextContent(p, /^\s+Hello,\s+World\s+$/, {
+        normalizer: (text) => text
+      }),
+      true,
+      'custom normalizer not used'
+    );
+  }
+);
+
+testTextMatch('will support exact and ignoreCase', ({ elements }) => {
+  const [, p, button] = elements;
+  assert.is(hasTextContent(p, 'Hello'), false, 'partial match by default');
+  assert.is(
+    hasTextContent(p, 'Hello', { exact: false }),
+    true,
+    'no partial match'
+  );
+  assert.is(hasAccessibleName(button, 'o'), false, 'case ignored');
+  assert.is(
+    hasAccessibleName(button, 'o', { ignoreCase: true }),
+    true,
+    'case not ignored'
+  );
+  assert.is(
+    hasAccessibleName(button, 'O', { exact: true }),
+    false,
+    'partial match for exact'
+  );
+});
+
+testTextMatch('will call matcher functions', ({ elements }) => {
+  const [, p, button] = elements;
+  assert.is(
+    hasTextContent(p, (text, elem) => text.length === 12 && elem === p),
+    true,
+    'matcher function failed'
+  );
+  assert.is(
+    explainHasAccessibleName(button, (text) => text === 'Cancel').reason,
+    "accessible name: 'OK' does not match the matcher function",
+    'wrong reason'
+  );
+});
+
+testTextMatch('will accept short accessible names', ({ elements }) => {
+  assert.is(hasAccessibleName(elements[2]), true, 'short name not accepted');
+});
+
+testTextMatch.run();
+
+const testHasValidity = suite<ElementContext>('hasValidity');
+
+testHasValidity.before((context) => {
+  const div = document.createElement('div');
+  div.innerHTML = `<input required />
+    <input type="email" value="nope" />
+    <input minlength="3" value="ok" />
+    <div></div>`;
+  context.elements = Array.from(div.children) as HTMLElement[];
+});
+
+testHasValidity('will compare the given validity flags', ({ elements }) => {
+  const [required, email, short] = elements;
+  assert.is(hasValidity(required, { valueMissing: true }), true, 'required');
+  assert.is(
+    hasValidity(required, { valueMissing: true, valid: true }),
+    false,
+    'required and valid'
+  );
+  assert.is(hasValidity(email, { typeMismatch: true }), true, 'email');
+  // jsdom only reports tooShort for values edited by the user
+  assert.is(hasValidity(short, { valid: true }), true, 'minlength');
+});
+
+testHasValidity('will return false for non-fields', ({ elements }) => {
+  assert.is(hasValidity(elements[3], { valid: true }), false, 'div');
+  assert.is(hasValidity(null, {}), false, 'null');
+});
+
+testHasValidity('will explain the first mismatching flag', ({ elements }) => {
+  const result = explainHasValidity(elements[0], {
+    valueMissing: false,
+    valid: false
+  });
+  assert.is(result.pass, false, 'wrong result');
+  assert.equal(result.actual, { valueMissing: true, valid: false });
+  assert.is(
+    result.reason,
+    'validity valueMissing: expected false, got true',
+    'wrong reason'
+  );
+});
+
+testHasValidity.run();
+
+const testHasValidationMessage = suite<ElementContext>('hasValidationMessage');
+
+testHasValidationMessage.before((context) => {
+  const div = document.createElement('div');
+  div.innerHTML = '<input required /><input /><span></span>';
+  const custom = div.children[1] as HTMLInputElement;
+  custom.setCustomValidity('Please pick another name');
+  context.elements = Array.from(div.children) as HTMLElement[];
+});
+
+testHasValidationMessage(
+  'will match text and regular expressions',
+  ({ elements }) => {
+    const [required, custom] = elements;
+    assert.is(
+      hasValidationMessage(custom, 'another name'),
+      true,
+      'no text match'
+    );
+    assert.is(hasValidationMessage(custom, /^Please/), true, 'no match');
+    assert.is(hasValidationMessage(custom, 'other'), true, 'no containment');
+    assert.is(hasValidationMessage(custom, /^name/), false, 'wrong match');
+    assert.is(hasValidationMessage(required, /\w/), true, 'no native message');
+  }
+);
+
+testHasValidationMessage('will return false for non-fields', ({ elements }) => {
+  assert.is(hasValidationMessage(elements[2], ''), false, 'span');
+  assert.is(hasValidationMessage(null, ''), false, 'null');
+});
+
+testHasValidationMessage.run();
+
 const testHasValue = suite<ElementContext>('hasValue');
 
 testHasValue.before((context) => {
@@ -1292,3 +2864,1367 @@ testHasValue('will return false for non-element', ({ elements }) => {
 
 
 testHasValue.run();
+
+const testExplainIsChecked = suite<ElementContext>('explainIsChecked');
+
+testExplainIsChecked.before((context) => {
+  const div = document.createElement('div');
+  div.innerHTML = `
+    <input type="checkbox" name="checked" checked />
+    <input type="checkbox" name="unchecked" />
+    <input type="text" name="text" />`;
+
+  context.elements = Array.from(div.querySelectorAll('input'));
+});
+
+testExplainIsChecked('will explain a checked checkbox', ({ elements }) => {
+  const result = explainIsChecked(elements[0]);
+  assert.is(result.pass, true, 'wrong pass value');
+  assert.is(result.actual, true, 'wrong actual value');
+  assert.is(result.reason, '<input name="checked"> is checked', 'wrong reason');
+});
+
+testExplainIsChecked('will explain an unchecked checkbox', ({ elements }) => {
+  const result = explainIsChecked(elements[1]);
+  assert.is(result.pass, false, 'wrong pass value');
+  assert.is(
+    result.reason,
+    '<input name="unchecked"> is not checked',
+    'wrong reason'
+  );
+});
+
+testExplainIsChecked('will explain a non-checkable element', ({ elements }) => {
+  assert.is(
+    explainIsChecked(elements[2]).reason,
+    'expected a checkbox or radio element, got <input name="text">',
+    'wrong reason'
+  );
+});
+
+testExplainIsChecked.run();
+
+const testExplainIsDisabled = suite<ElementContext>('explainIsDisabled');
+
+testExplainIsDisabled.before((context) => {
+  const div = document.createElement('div');
+  div.innerHTML = `
+    <fieldset id="group" disabled>
+      <button id="indirect">indirectly disabled</button>
+    </fieldset>
+    <button id="enabled">enabled</button>`;
+
+  context.elements = Array.from(div.querySelectorAll('button'));
+});
+
+testExplainIsDisabled(
+  'will name the ancestor that disables the element',
+  ({ elements }) => {
+    const result = explainIsDisabled(elements[0]);
+    assert.is(result.pass, true, 'wrong pass value');
+    assert.is(
+      result.reason,
+      '<button#indirect> is disabled by ancestor <fieldset#group>',
+      'wrong reason'
+    );
+  }
+);
+
+testExplainIsDisabled('will explain an enabled element', ({ elements }) => {
+  const result = explainIsDisabled(elements[1]);
+  assert.is(result.pass, false, 'wrong pass value');
+  assert.is(result.reason, '<button#enabled> is not disabled', 'wrong reason');
+});
+
+testExplainIsDisabled.run();
+
+const testExplainIsVisible = suite<ElementContext>('explainIsVisible');
+
+testExplainIsVisible.before((context) => {
+  const div = document.createElement('div');
+  div.innerHTML = `
+    <span id="hider" style="display: none"><b id="hidden"></b></span>
+    <div id="transparent" style="opacity: 0"></div>
+    <div id="visible">visible</div>`;
+  document.body.appendChild(div);
+
+  context.elements = [
+    ...Array.from(
+      div.querySelectorAll<HTMLElement>('b, #transparent, #visible')
+    ),
+    document.createElement('p'),
+    div
+  ];
+});
+
+testExplainIsVisible.after(({ elements }) => {
+  document.body.removeChild(elements[elements.length - 1]);
+});
+
+testExplainIsVisible(
+  'will name the ancestor hiding the element',
+  ({ elements }) => {
+    const result = explainIsVisible(elements[0]);
+    assert.is(result.pass, false, 'wrong pass value');
+    assert.is(result.reason, '<span#hider> has display: none', 'wrong reason');
+  }
+);
+
+testExplainIsVisible('will name the hiding style', ({ elements }) => {
+  assert.is(
+    explainIsVisible(elements[1]).reason,
+    '<div#transparent> has opacity: 0',
+    'wrong reason'
+  );
+});
+
+testExplainIsVisible('will name the closed details', () => {
+  const div = document.createElement('div');
+  div.innerHTML = `<details id="faq"><summary>Q</summary><p>A</p></details>`;
+  document.body.appendChild(div);
+  assert.is(
+    explainIsVisible(div.querySelector('p')).reason,
+    '<details#faq> is closed',
+    'wrong reason'
+  );
+  document.body.removeChild(div);
+});
+
+testExplainIsVisible('will explain a visible element', ({ elements }) => {
+  const result = explainIsVisible(elements[2]);
+  assert.is(result.pass, true, 'wrong pass value');
+  assert.is(result.reason, '<div#visible> is visible', 'wrong reason');
+});
+
+testExplainIsVisible('will explain an unmounted element', ({ elements }) => {
+  assert.is(
+    explainIsVisible(elements[3]).reason,
+    '<p> is not in the document',
+    'wrong reason'
+  );
+});
+
+testExplainIsVisible.run();
+
+const testExplainHasAccessibleName = suite<ElementContext>(
+  'explainHasAccessibleName'
+);
+
+testExplainHasAccessibleName.before((context) => {
+  const div = document.createElement('div');
+  div.innerHTML = '<button>Save draft</button>';
+  document.body.appendChild(div);
+
+  context.elements = [div.querySelector('button') as HTMLElement, div];
+});
+
+testExplainHasAccessibleName.after(({ elements }) => {
+  document.body.removeChild(elements[1]);
+});
+
+testExplainHasAccessibleName(
+  'will return the computed name as actual value',
+  ({ elements }) => {
+    const result = explainHasAccessibleName(elements[0], /Save/);
+    assert.is(result.pass, true, 'wrong pass value');
+    assert.is(result.actual, 'Save draft', 'wrong actual value');
+    assert.is(
+      result.reason,
+      "accessible name: 'Save draft' matches /Save/",
+      'wrong reason'
+    );
+  }
+);
+
+testExplainHasAccessibleName(
+  'will explain a mismatching name',
+  ({ elements }) => {
+    assert.is(
+      explainHasAccessibleName(elements[0], 'Publish').reason,
+      "accessible name: expected to contain 'Publish', got 'Save draft'",
+      'wrong reason'
+    );
+  }
+);
+
+testExplainHasAccessibleName('will explain a non-element', () => {
+  const result = explainHasAccessibleName(null, 'Save');
+  assert.is(result.pass, false, 'wrong pass value');
+  assert.is(result.actual, null, 'wrong actual value');
+  assert.is(result.reason, 'expected an element, got null', 'wrong reason');
+});
+
+testExplainHasAccessibleName.run();
+
+const testExplainHasFormValues = suite<ElementContext>('explainHasFormValues');
+
+testExplainHasFormValues.before((context) => {
+  const div = document.createElement('div');
+  div.innerHTML = `
+    <form>
+      <input name="email" type="email" value="" />
+      <input name="age" type="number" value="42" />
+      <input name="tags" type="checkbox" value="a" checked />
+      <input name="tags" type="checkbox" value="b" />
+    </form>`;
+
+  context.elements = Array.from(div.querySelectorAll('form'));
+});
+
+testExplainHasFormValues(
+  'will report the mismatching fields',
+  ({ elements }) => {
+    const result = explainHasFormValues(elements[0], {
+      email: 'a@b.c',
+      age: 42
+    });
+    assert.is(result.pass, false, 'wrong pass value');
+    assert.equal(result.actual, { email: '', age: 42 }, 'wrong actual value');
+    assert.is(
+      result.reason,
+      "field `email`: expected 'a@b.c', got ''",
+      'wrong reason'
+    );
+  }
+);
+
+testExplainHasFormValues('will report matching fields', ({ elements }) => {
+  const result = explainHasFormValues(elements[0], { age: 42, tags: ['a'] });
+  assert.is(result.pass, true, 'wrong pass value');
+  assert.is(result.reason, 'all 2 fields match', 'wrong reason');
+});
+
+testExplainHasFormValues('will explain a non-form element', () => {
+  assert.is(
+    explainHasFormValues(null, {}).reason,
+    'expected a form element, got null',
+    'wrong reason'
+  );
+});
+
+testExplainHasFormValues.run();
+
+const testExplainHasStyle = suite<ElementContext>('explainHasStyle');
+
+testExplainHasStyle.before((context) => {
+  const div = document.createElement('div');
+  div.innerHTML = '<div style="color: white; position: absolute;"></div>';
+  document.body.appendChild(div);
+
+  context.elements = [div.firstElementChild as HTMLElement, div];
+});
+
+testExplainHasStyle.after(({ elements }) => {
+  document.body.removeChild(elements[1]);
+});
+
+testExplainHasStyle('will report the mismatching styles', ({ elements }) => {
+  const result = explainHasStyle(
+    elements[0],
+    'color: black; position: absolute'
+  );
+  assert.is(result.pass, false, 'wrong pass value');
+  assert.equal(
+    result.actual,
+    { color: 'white', position: 'absolute' },
+    'wrong actual value'
+  );
+  assert.is(
+    result.reason,
+    "style `color`: expected 'black', got 'white'",
+    'wrong reason'
+  );
+});
+
+testExplainHasStyle(
+  'will report the mismatching longhands of shorthands',
+  ({ elements }) => {
+    const result = explainHasStyle(elements[0], { margin: '0 4px' });
+    assert.is(result.pass, false, 'wrong pass value');
+    assert.equal(
+      result.actual,
+      {
+        'margin-top': '',
+        'margin-right': '',
+        'margin-bottom': '',
+        'margin-left': ''
+      },
+      'wrong actual value'
+    );
+    assert.is(
+      result.reason,
+      "style `margin-top`: expected '0px', got ''; " +
+        "style `margin-right`: expected '4px', got ''; " +
+        "style `margin-bottom`: expected '0px', got ''; " +
+        "style `margin-left`: expected '4px', got ''",
+      'wrong reason'
+    );
+  }
+);
+
+testExplainHasStyle.run();
+
+const testShadowDom = suite<ElementContext>('shadow DOM');
+
+testShadowDom.before.each((context) => {
+  const div = document.createElement('div');
+  div.innerHTML = `<div aria-disabled="true"><p id="host">
+      <span>slotted</span><span slot="missing">unslotted</span>
+    </p></div>`;
+  document.body.appendChild(div);
+  const host = div.querySelector('#host') as HTMLElement;
+  host.attachShadow({ mode: 'open' }).innerHTML = `
+    <input aria-describedby="hint" aria-errormessage="hint" aria-invalid="true" />
+    <span id="hint">shadow hint</span>
+    <div style="display: none"><span>hidden</span></div>
+    <slot></slot>`;
+  context.elements = [div, host];
+});
+
+testShadowDom.after.each(({ elements }) => {
+  document.body.removeChild(elements[0]);
+});
+
+testShadowDom(
+  'will find elements in shadow roots in the document',
+  ({ elements }) => {
+    const [div, host] = elements;
+    const input = host.shadowRoot?.querySelector('input');
+    assert.is(isInDocument(input), true, 'not in document');
+    assert.is(isVisible(input), true, 'not visible');
+    assert.is(hasElement(div, input), true, 'not contained');
+    assert.is(hasElement(input, div), false, 'wrong containment');
+  }
+);
+
+testShadowDom('will follow the flat tree for visibility', ({ elements }) => {
+  const [, host] = elements;
+  const [slotted, unslotted] = Array.from(host.children);
+  assert.is(
+    isVisible(host.shadowRoot?.querySelector('div > span')),
+    false,
+    'hidden shadow content visible'
+  );
+  assert.is(isVisible(slotted), true, 'slotted content not visible');
+  assert.is(isVisible(unslotted), false, 'unslotted content visible');
+  assert.is(
+    isInaccessible(host.shadowRoot?.querySelector('div > span')),
+    true,
+    'hidden shadow content accessible'
+  );
+});
+
+testShadowDom('will inherit aria-disabled from the host', ({ elements }) => {
+  const [, host] = elements;
+  const span = host.shadowRoot?.querySelector('span') as HTMLElement;
+  span.setAttribute('role', 'button');
+  assert.is(isDisabled(span), true, 'not disabled');
+});
+
+testShadowDom(
+  'will resolve id references in the shadow root',
+  ({ elements }) => {
+    const [, host] = elements;
+    const input = host.shadowRoot?.querySelector('input');
+    assert.is(hasErrorMessage(input, 'shadow hint'), true, 'no error message');
+    assert.is(hasDescription(input, 'shadow hint'), true, 'no description');
+  }
+);
+
+testShadowDom(
+  'will find the focused element in the shadow root',
+  ({ elements }) => {
+    const [, host] = elements;
+    const input = host.shadowRoot?.querySelector('input');
+    input?.focus();
+    assert.is(hasFocus(input), true, 'not focused');
+    input?.blur();
+  }
+);
+
+testShadowDom.run();
+
+const testIframe = suite<ElementContext>('iframe');
+
+testIframe.before((context) => {
+  const iframe = document.createElement('iframe');
+  document.body.appendChild(iframe);
+  const doc = iframe.contentDocument as Document;
+  doc.body.innerHTML = `<form>
+      <fieldset disabled><input name="name" value="Jane" /></fieldset>
+      <input type="checkbox" name="agree" checked />
+      <select name="size"><option>S</option><option selected>M</option></select>
+    </form>
+    <p style="display: none">hidden</p>
+    <button style="color: red">Save</button>`;
+  context.elements = [iframe];
+});
+
+testIframe.after(({ elements }) => {
+  document.body.removeChild(elements[0]);
+});
+
+testIframe('will recognize elements of other windows', ({ elements }) => {
+  const doc = (elements[0] as HTMLIFrameElement).contentDocument as Document;
+  const input = doc.querySelector('input');
+  const checkbox = doc.querySelector('[type="checkbox"]');
+  const button = doc.querySelector('button');
+  assert.is(input instanceof HTMLElement, false, 'same realm');
+  assert.is(isInDocument(input, doc), true, 'not in iframe document');
+  assert.is(isInDocument(input), false, 'in current document');
+  assert.is(isDisabled(input), true, 'not disabled');
+  assert.is(isChecked(checkbox), true, 'not checked');
+  assert.is(hasRole(button, 'button'), true, 'wrong role');
+  assert.is(hasValue(doc.querySelector('select'), 'M'), true, 'wrong value');
+  assert.equal(
+    getFormValues(doc.querySelector('form') as HTMLFormElement),
+    { agree: true, size: 'M' },
+    'wrong form values'
+  );
+});
+
+testIframe(
+  'will compute styles in the window of the element',
+  ({ elements }) => {
+    const doc = (elements[0] as HTMLIFrameElement).contentDocument as Document;
+    assert.is(isVisible(doc.querySelector('button')), true, 'not visible');
+    assert.is(isVisible(doc.querySelector('p')), false, 'visible');
+    assert.is(
+      isInaccessible(doc.querySelector('p')),
+      true,
+      'hidden element accessible'
+    );
+    assert.is(
+      hasStyle(doc.querySelector('button'), { color: 'red' }),
+      true,
+      'wrong style'
+    );
+  }
+);
+
+testIframe('will not rely on the global Node', ({ elements }) => {
+  const doc = (elements[0] as HTMLIFrameElement).contentDocument as Document;
+  const { Node } = globalThis;
+  delete (globalThis as { Node?: unknown }).Node;
+  try {
+    assert.is(isVisible(doc.querySelector('button')), true, 'not visible');
+    assert.is(
+      isChecked(doc.querySelector('input[type="checkbox"]')),
+      true,
+      'not checked'
+    );
+    assert.match(prettyDOM(doc.querySelector('button')), 'Save', 'not printed');
+    assert.is(
+      matchers.toHaveClass.call({}, doc.querySelector('button')).pass,
+      false,
+      'class found'
+    );
+  } finally {
+    Object.assign(globalThis, { Node });
+  }
+});
+
+testIframe.run();
+
+const testSvg = suite<ElementContext>('svg');
+
+testSvg.before((context) => {
+  const div = document.createElement('div');
+  div.innerHTML = `<svg role="img" aria-label="Logo"><circle r="4"></circle></svg>
+    <svg aria-label="Chart"></svg>`;
+  document.body.appendChild(div);
+  context.elements = [
+    div,
+    ...Array.from(div.querySelectorAll<HTMLElement>('svg'))
+  ];
+});
+
+testSvg.after(({ elements }) => {
+  document.body.removeChild(elements[0]);
+});
+
+testSvg(
+  'will treat svg elements as elements in the document',
+  ({ elements }) => {
+    const [div, logo] = elements;
+    assert.is(isInDocument(logo), true, 'not in document');
+    assert.is(
+      explainIsInDocument(logo).reason,
+      '<svg> is in the document',
+      'wrong reason'
+    );
+    assert.is(isVisible(logo), true, 'not visible');
+    assert.is(isInaccessible(logo), false, 'inaccessible');
+    assert.equal(queryAllByRole(div, 'img'), [logo], 'not found by role');
+    assert.is(
+      getAccessibilityTree(div),
+      'img "Logo"\ngraphics-document "Chart"',
+      'wrong tree'
+    );
+  }
+);
+
+testSvg.run();
+
+const testPrettyDOM = suite<ElementContext>('prettyDOM');
+
+testPrettyDOM.before.each((context) => {
+  const div = document.createElement('div');
+  div.innerHTML = `<form data-hk="0-0" id="settings" class="narrow">
+      <!--#--><h2 data-hk="0-1">Settings</h2><!--/-->
+      <!-- keep me -->
+      <fieldset disabled><input name="name" value="Jane" /></fieldset>
+      <input type="checkbox" name="agree" />
+      <select name="size"><option>S</option><option>M</option></select>
+      <textarea name="notes"></textarea>
+      <script>console.log('hidden')</script>
+      <style>p { color: red; }</style>
+      <div></div><!---->
+    </form>`;
+  document.body.appendChild(div);
+  context.elements = [div];
+});
+
+testPrettyDOM.after.each(({ elements }) => {
+  document.body.removeChild(elements[0]);
+});
+
+testPrettyDOM(
+  'will print indented markup without hydration markers',
+  ({ elements }) => {
+    assert.is(
+      prettyDOM(elements[0].firstElementChild),
+      '<form class="narrow" id="settings">\n' +
+        '  <h2>\n' +
+        '    Settings\n' +
+        '  </h2>\n' +
+        '  <!-- keep me -->\n' +
+        '  <fieldset disabled="">\n' +
+        '    <input name="name" value="Jane" />\n' +
+        '  </fieldset>\n' +
+        '  <input name="agree" type="checkbox" />\n' +
+        '  <select name="size">\n' +
+        '    <option>\n' +
+        '      S\n' +
+        '    </option>\n' +
+        '    <option>\n' +
+        '      M\n' +
+        '    </option>\n' +
+        '  </select>\n' +
+        '  <textarea name="notes"></textarea>\n' +
+        '  <div></div>\n' +
+        '</form>',
+      'wrong output'
+    );
+  }
+);
+
+testPrettyDOM('will escape text and attribute values', () => {
+  const p = document.createElement('p');
+  p.title = 'say "a & b"';
+  p.textContent = 'a < b && <b>';
+  assert.is(
+    prettyDOM(p),
+    '<p title="say &quot;a &amp; b&quot;">\n  a &lt; b &amp;&amp; &lt;b&gt;\n</p>',
+    'not escaped'
+  );
+});
+
+testPrettyDOM('will print documents, fragments and values', () => {
+  const fragment = document.createDocumentFragment();
+  fragment.append(document.createElement('br'), 'text');
+  assert.is(prettyDOM(fragment), '<br />\ntext', 'wrong fragment');
+  assert.match(prettyDOM(document), /^<body>\n/, 'wrong document');
+  assert.is(prettyDOM(null), 'null', 'wrong value');
+});
+
+testPrettyDOM('will truncate and filter the output', ({ elements }) => {
+  const form = elements[0].firstElementChild;
+  assert.is(
+    prettyDOM(form, { maxLength: 10 }),
+    '<form clas...',
+    'not truncated'
+  );
+  assert.is(
+    prettyDOM(form?.querySelector('select'), {
+      filterNode: (node) => node.nodeType !== Node.TEXT_NODE
+    }),
+    '<select name="size">\n  <option></option>\n  <option></option>\n</select>',
+    'not filtered'
+  );
+  assert.match(
+    prettyDOM(form, { filterNode: () => true }),
+    "console.log('hidden')",
+    'scripts filtered'
+  );
+});
+
+testPrettyDOM('will annotate the computed state', ({ elements }) => {
+  const form = elements[0].firstElementChild as HTMLFormElement;
+  fillForm(form, { agree: true, notes: 'none', size: 'M' });
+  const printed = prettyDOM(form, { annotateState: true });
+  assert.match(
+    printed,
+    '<input name="name" value="Jane" /> <!-- disabled -->',
+    'no inherited disabled state'
+  );
+  assert.match(
+    printed,
+    '<input name="agree" type="checkbox" /> <!-- checked -->',
+    'no checked state'
+  );
+  assert.match(
+    printed,
+    '<select name="size"> <!-- value=\'M\' -->',
+    'no selected value'
+  );
+  assert.match(
+    printed,
+    '<textarea name="notes"></textarea> <!-- value=\'none\' -->',
+    'no typed value'
+  );
+  assert.not.match(prettyDOM(form), '<!-- checked -->', 'annotated by default');
+});
+
+testPrettyDOM('will highlight the output', () => {
+  const p = document.createElement('p');
+  p.title = 'hint';
+  assert.is(
+    prettyDOM(p, { highlight: true }),
+    '\u001b[36m<p\u001b[39m \u001b[33mtitle\u001b[39m=\u001b[32m"hint"\u001b[39m' +
+      '\u001b[36m>\u001b[39m\u001b[36m</p>\u001b[39m',
+    'not highlighted'
+  );
+});
+
+testPrettyDOM('will serialize nodes for snapshots', ({ elements }) => {
+  const h2 = elements[0].querySelector('h2');
+  assert.is(domSerializer.test(h2), true, 'node not serialized');
+  assert.is(domSerializer.test('<h2>'), false, 'string serialized');
+  assert.is(
+    domSerializer.serialize(h2 as Node),
+    '<h2>\n  Settings\n</h2>',
+    'wrong serialization'
+  );
+});
+
+testPrettyDOM.run();
+
+const testUvuAdapter = suite<ElementContext>('uvu adapter');
+
+testUvuAdapter.before((context) => {
+  const div = document.createElement('div');
+  div.innerHTML = `
+    <form>
+      <input name="email" type="email" value="" />
+      <input name="agree" type="checkbox" checked />
+    </form>
+    <button>Save</button>
+    <p style="display: none">hidden</p>`;
+  document.body.appendChild(div);
+
+  context.elements = [
+    ...Array.from(div.querySelectorAll<HTMLElement>('form, input, button, p')),
+    div
+  ];
+});
+
+testUvuAdapter.after(({ elements }) => {
+  document.body.removeChild(elements[elements.length - 1]);
+});
+
+testUvuAdapter('will not throw for passing predicates', ({ elements }) => {
+  assertHasFormValues(elements[0], { email: '', agree: true });
+  assertChecked(elements[2]);
+  assertHasAccessibleName(elements[3], /Save/);
+  assertVisible(elements[3]);
+});
+
+testUvuAdapter(
+  'will throw an Assertion with actual and expected values',
+  ({ elements }) => {
+    try {
+      assertHasFormValues(elements[0], { email: 'a@b.c' });
+      assert.unreachable('did not throw');
+    } catch (error: any) {
+      assert.instance(error, assert.Assertion, 'wrong error type');
+      assert.is(error.operator, 'hasFormValues', 'wrong operator');
+      assert.equal(error.actual, { email: '' }, 'wrong actual value');
+      assert.equal(error.expects, { email: 'a@b.c' }, 'wrong expected value');
+      assert.is(
+        error.message,
+        "field `email`: expected 'a@b.c', got ''\n\n" +
+          '<form>\n' +
+          '  <input name="email" type="email" value="" />\n' +
+          '  <input checked="" name="agree" type="checkbox" />\n' +
+          '</form>',
+        'wrong message'
+      );
+      assert.type(error.details, 'string', 'missing diff');
+      assert.is(error.generated, true, 'wrong generated flag');
+    }
+  }
+);
+
+testUvuAdapter('will pass options to the predicate', ({ elements }) => {
+  elements[3].setAttribute('inert', '');
+  try {
+    assertVisible(elements[3], { inert: false });
+    assertVisible(elements[3]);
+    assert.unreachable('did not throw');
+  } catch (error: any) {
+    assert.match(error.message, 'has the inert attribute', 'wrong message');
+  } finally {
+    elements[3].removeAttribute('inert');
+  }
+});
+
+testUvuAdapter('will use the explanation as message', ({ elements }) => {
+  try {
+    assertVisible(elements[4]);
+    assert.unreachable('did not throw');
+  } catch (error: any) {
+    assert.is(
+      error.message,
+      '<p> has display: none\n\n<p style="display: none">\n  hidden\n</p>',
+      'wrong message'
+    );
+  }
+});
+
+testUvuAdapter('will use a custom message', ({ elements }) => {
+  try {
+    assertHasValue(elements[1], 'a@b.c', 'email not filled');
+    assert.unreachable('did not throw');
+  } catch (error: any) {
+    assert.is(error.message, 'email not filled', 'custom message not used');
+    assert.is(error.generated, false, 'wrong generated flag');
+  }
+});
+
+testUvuAdapter('will throw a custom error', ({ elements }) => {
+  const custom = new TypeError('custom');
+  assert.throws(
+    () => assertChecked(elements[1], custom),
+    (error: Error) => error === custom,
+    'custom error not thrown'
+  );
+});
+
+testUvuAdapter.run();
+
+const testChaiPlugin = suite<ElementContext>('chai plugin');
+
+testChaiPlugin.before((context) => {
+  chai.use(chaiDomTesting);
+
+  const div = document.createElement('div');
+  div.innerHTML = `
+    <form>
+      <input name="email" type="email" value="" />
+      <input name="agree" type="checkbox" checked />
+    </form>
+    <button>Save</button>
+    <p style="display: none">hidden</p>`;
+  document.body.appendChild(div);
+
+  context.elements = [
+    ...Array.from(div.querySelectorAll<HTMLElement>('form, input, button, p')),
+    div
+  ];
+});
+
+testChaiPlugin.after(({ elements }) => {
+  document.body.removeChild(elements[elements.length - 1]);
+});
+
+testChaiPlugin('will pass for matching properties', ({ elements }) => {
+  chai.expect(elements[2]).to.be.checked;
+  chai.expect(elements[3]).to.be.visible;
+  chai.expect(elements[3]).not.to.be.disabled;
+  chai.expect(elements[4]).not.to.be.visible;
+});
+
+testChaiPlugin('will pass visibility options', ({ elements }) => {
+  elements[3].setAttribute('inert', '');
+  try {
+    chai.expect(elements[3]).not.to.be.visible;
+    chai.expect(elements[3]).to.be.visibleWith({ inert: false });
+  } finally {
+    elements[3].removeAttribute('inert');
+  }
+});
+
+testChaiPlugin('will pass for matching methods', ({ elements }) => {
+  chai.expect(elements[0]).to.have.formValues({ email: '', agree: true });
+  chai.expect(elements[3]).to.have.accessibleName(/Save/);
+  chai.expect(elements[3]).not.to.have.accessibleName('Cancel');
+  chai.expect(elements[5]).to.have.descendant(elements[3]);
+});
+
+testChaiPlugin(
+  'will fail with the explanation and the printed element',
+  ({ elements }) => {
+    assert.throws(
+      () => chai.expect(elements[4]).to.be.visible,
+      (error: Error) =>
+        error.message ===
+        'expected element to be visible: <p> has display: none\n' +
+          '<p style="display: none">\n  hidden\n</p>',
+      'wrong message'
+    );
+  }
+);
+
+testChaiPlugin('will fail negated assertions', ({ elements }) => {
+  assert.throws(
+    () => chai.expect(elements[3]).not.to.have.accessibleName(/Save/),
+    (error: Error) =>
+      error.message ===
+      "expected element not to have an accessible name: accessible name: 'Save' matches /Save/\n" +
+        '<button>\n  Save\n</button>',
+    'wrong message'
+  );
+});
+
+testChaiPlugin('will fail with actual and expected values', ({ elements }) => {
+  try {
+    chai.expect(elements[0]).to.have.formValues({ email: 'a@b.c' });
+    assert.unreachable('did not throw');
+  } catch (error: any) {
+    assert.instance(error, chai.AssertionError, 'wrong error type');
+    assert.equal(error.actual, { email: '' }, 'wrong actual value');
+    assert.equal(error.expected, { email: 'a@b.c' }, 'wrong expected value');
+    assert.is(error.showDiff, true, 'diff not shown');
+  }
+});
+
+testChaiPlugin.run();
+
+const testMatchers = suite<ElementContext>('matchers');
+
+testMatchers.before((context) => {
+  const div = document.createElement('div');
+  div.innerHTML = `
+    <form>
+      <input name="email" type="email" value="" />
+      <input name="agree" type="checkbox" checked />
+    </form>
+    <button class="primary large">Save</button>
+    <button disabled>Cancel</button>`;
+  document.body.appendChild(div);
+
+  context.elements = [
+    ...Array.from(div.querySelectorAll<HTMLElement>('form, input, button')),
+    div
+  ];
+});
+
+testMatchers.after(({ elements }) => {
+  document.body.removeChild(elements[elements.length - 1]);
+});
+
+testMatchers('will return pass and message', ({ elements }) => {
+  const result = matchers.toBeVisible.call({ isNot: false }, elements[3]);
+  assert.is(result.pass, true, 'wrong pass value');
+  assert.is(
+    result.message(),
+    'expect(element).toBeVisible(): <button> is visible\n\n<button class="primary large">\n  Save\n</button>',
+    'wrong message'
+  );
+});
+
+testMatchers('will pass visibility options', ({ elements }) => {
+  elements[3].setAttribute('inert', '');
+  try {
+    assert.is(
+      matchers.toBeVisible.call({}, elements[3]).pass,
+      false,
+      'inert button visible'
+    );
+    assert.is(
+      matchers.toBeVisible.call({}, elements[3], { inert: false }).pass,
+      true,
+      'option ignored'
+    );
+  } finally {
+    elements[3].removeAttribute('inert');
+  }
+});
+
+testMatchers('will adapt the message for .not', ({ elements }) => {
+  const result = matchers.toBeDisabled.call({ isNot: true }, elements[4]);
+  assert.is(result.pass, true, 'wrong pass value');
+  assert.is(
+    result.message(),
+    'expect(element).not.toBeDisabled(): <button> is disabled\n\n<button disabled="">\n  Cancel\n</button>',
+    'wrong message'
+  );
+});
+
+testMatchers('will return actual and expected values', ({ elements }) => {
+  const result = matchers.toHaveFormValues.call({}, elements[0], {
+    email: 'a@b.c'
+  });
+  assert.is(result.pass, false, 'wrong pass value');
+  assert.equal(result.actual, { email: '' }, 'wrong actual value');
+  assert.equal(result.expected, { email: 'a@b.c' }, 'wrong expected value');
+  assert.is(
+    result.message(),
+    "expect(element).toHaveFormValues(): field `email`: expected 'a@b.c', got ''\n\n" +
+      '<form>\n' +
+      '  <input name="email" type="email" value="" />\n' +
+      '  <input checked="" name="agree" type="checkbox" />\n' +
+      '</form>',
+    'wrong message'
+  );
+});
+
+testMatchers(
+  'will complement toBeDisabled with toBeEnabled',
+  ({ elements }) => {
+    assert.is(
+      matchers.toBeEnabled.call({}, elements[3]).pass,
+      true,
+      'enabled button not enabled'
+    );
+    assert.is(
+      matchers.toBeEnabled.call({}, elements[4]).pass,
+      false,
+      'disabled button enabled'
+    );
+    assert.is(
+      matchers.toBeEnabled.call({}, null).pass,
+      false,
+      'non-element enabled'
+    );
+  }
+);
+
+testMatchers(
+  'will support jest-dom arguments for toHaveClass',
+  ({ elements }) => {
+    const button = elements[3];
+    assert.is(
+      matchers.toHaveClass.call({}, button, 'primary').pass,
+      true,
+      'single class not found'
+    );
+    assert.is(
+      matchers.toHaveClass.call({}, button, 'large primary').pass,
+      true,
+      'space-separated classes not found'
+    );
+    assert.is(
+      matchers.toHaveClass.call({}, button, 'primary', 'large').pass,
+      true,
+      'multiple classes not found'
+    );
+    assert.is(
+      matchers.toHaveClass.call({}, button, 'primary', { exact: true }).pass,
+      false,
+      'wrong exact match'
+    );
+    assert.is(
+      matchers.toHaveClass.call({}, button).pass,
+      true,
+      'no class found'
+    );
+    assert.is(
+      matchers.toHaveClass.call({}, elements[4]).pass,
+      false,
+      'class found on element without class'
+    );
+  }
+);
+
+testMatchers('will compare attributes exactly like jest-dom', () => {
+  const div = document.createElement('div');
+  div.setAttribute('title', ' Save  draft ');
+  assert.is(
+    matchers.toHaveAttribute.call({}, div, 'title', ' Save  draft ').pass,
+    true,
+    'exact attribute value not matched'
+  );
+  assert.is(
+    matchers.toHaveAttribute.call({}, div, 'title', 'Save draft').pass,
+    false,
+    'normalized attribute value matched'
+  );
+});
+
+testMatchers(
+  'will match text content and display values like jest-dom',
+  ({ elements }) => {
+    const [, email] = elements;
+    (email as HTMLInputElement).value = 'hello world';
+    assert.is(
+      matchers.toHaveTextContent.call({}, elements[3], 'av').pass,
+      true,
+      'substring of text content not matched'
+    );
+    assert.is(
+      matchers.toHaveTextContent.call({}, elements[3], 'av', { exact: true })
+        .pass,
+      false,
+      'exact option ignored'
+    );
+    assert.is(
+      matchers.toHaveDisplayValue.call({}, email, 'hello').pass,
+      false,
+      'substring of display value matched'
+    );
+    assert.is(
+      matchers.toHaveDisplayValue.call({}, email, 'hello world').pass,
+      true,
+      'display value not matched'
+    );
+    (email as HTMLInputElement).value = '';
+  }
+);
+
+testMatchers.run();
+
+const testWaitFor = suite<ElementContext>('waitFor');
+
+testWaitFor.before.each((context) => {
+  const div = document.createElement('div');
+  div.innerHTML = '<p>Loading</p>';
+  document.body.appendChild(div);
+
+  context.elements = [div.querySelector('p') as HTMLElement, div];
+});
+
+testWaitFor.after.each(({ elements }) => {
+  document.body.removeChild(elements[1]);
+});
+
+testWaitFor(
+  'will resolve immediately if the check passes',
+  async ({ elements }) => {
+    assert.is(
+      await waitFor(() => hasTextContent(elements[0], 'Loading')),
+      true,
+      'wrong result'
+    );
+  }
+);
+
+testWaitFor('will resolve after a DOM mutation', async ({ elements }) => {
+  setTimeout(() => {
+    elements[0].textContent = 'Loaded';
+  }, 10);
+  const result = await waitFor(
+    () => explainHasTextContent(elements[0], 'Loaded'),
+    {
+      interval: 1000
+    }
+  );
+  assert.is(result.pass, true, 'wrong result');
+});
+
+testWaitFor('will resolve by polling', async ({ elements }) => {
+  let ready = false;
+  setTimeout(() => {
+    ready = true;
+  }, 10);
+  await waitFor(() => ready && hasTextContent(elements[0], 'Loading'), {
+    interval: 5
+  });
+});
+
+testWaitFor(
+  'will reject with the last explanation on timeout',
+  async ({ elements }) => {
+    try {
+      await waitFor(() => explainHasTextContent(elements[0], 'Loaded'), {
+        timeout: 20
+      });
+      assert.unreachable('did not reject');
+    } catch (error: any) {
+      assert.is(
+        error.message,
+        "timed out after 20ms: text content: expected 'Loaded', got 'Loading'" +
+          `\n\n${prettyDOM(document)}`,
+        'wrong message'
+      );
+    }
+  }
+);
+
+testWaitFor('will reject with the last thrown error on timeout', async () => {
+  const thrown = new TypeError('not yet');
+  try {
+    await waitFor(
+      () => {
+        throw thrown;
+      },
+      { timeout: 20 }
+    );
+    assert.unreachable('did not reject');
+  } catch (error) {
+    assert.is(error, thrown, 'wrong error');
+  }
+});
+
+testWaitFor('will work with fake timers', async ({ elements }) => {
+  const clock = FakeTimers.install();
+  try {
+    setTimeout(() => {
+      elements[0].textContent = 'Loaded';
+    }, 500);
+    await waitFor(() => hasTextContent(elements[0], 'Loaded'));
+    assert.is(clock.now, 500, 'wrong time elapsed');
+  } finally {
+    clock.uninstall();
+  }
+});
+
+testWaitFor('will time out with fake timers', async ({ elements }) => {
+  const clock = FakeTimers.install();
+  try {
+    await waitFor(() => hasTextContent(elements[0], 'Loaded'), {
+      timeout: 200
+    });
+    assert.unreachable('did not reject');
+  } catch (error: any) {
+    assert.is(
+      error.message.split('\n\n')[0],
+      'timed out after 200ms: callback returned false',
+      'wrong message'
+    );
+  } finally {
+    clock.uninstall();
+  }
+});
+
+testWaitFor(
+  'will time out with fake timers and an interval of 0',
+  async ({ elements }) => {
+    const clock = FakeTimers.install();
+    try {
+      await waitFor(() => hasTextContent(elements[0], 'Loaded'), {
+        timeout: 20,
+        interval: 0
+      });
+      assert.unreachable('did not reject');
+    } catch (error: any) {
+      assert.match(error.message, 'timed out after 20ms', 'wrong message');
+      assert.is(clock.now, 20, 'wrong time elapsed');
+    } finally {
+      clock.uninstall();
+    }
+  }
+);
+
+testWaitFor('will wait for an element to be removed', async ({ elements }) => {
+  setTimeout(() => elements[0].remove(), 10);
+  await waitForElementToBeRemoved(elements[0]);
+  assert.is(isInDocument(elements[0]), false, 'element not removed');
+});
+
+testWaitFor(
+  'will wait for a queried element to be removed',
+  async ({ elements }) => {
+    setTimeout(() => elements[0].remove(), 10);
+    await waitForElementToBeRemoved(() => elements[1].querySelector('p'));
+    assert.is(isInDocument(elements[0]), false, 'element not removed');
+  }
+);
+
+testWaitFor('will reject for already removed elements', async () => {
+  try {
+    await waitForElementToBeRemoved(document.createElement('p'));
+    assert.unreachable('did not reject');
+  } catch (error: any) {
+    assert.match(error.message, 'already removed', 'wrong message');
+  }
+});
+
+testWaitFor(
+  'will reject if the element is not removed',
+  async ({ elements }) => {
+    try {
+      await waitForElementToBeRemoved(elements[0], { timeout: 20 });
+      assert.unreachable('did not reject');
+    } catch (error: any) {
+      assert.is(
+        error.message.split('\n\n')[0],
+        'timed out after 20ms: 1 element(s) still in the document',
+        'wrong message'
+      );
+    }
+  }
+);
+
+testWaitFor.run();
+
+const testQueries = suite<ElementContext>('role queries');
+
+testQueries.before.each((context) => {
+  const div = document.createElement('div');
+  div.innerHTML = `
+    <h1>Settings</h1>
+    <button aria-describedby="hint">Save</button>
+    <span id="hint">saves all settings</span>
+    <button aria-expanded="true">Advanced</button>
+    <button hidden>Reset</button>
+    <input type="checkbox" aria-label="Dark mode" checked>
+    <input type="checkbox" aria-label="Notifications">
+  `;
+  document.body.appendChild(div);
+
+  context.elements = [div];
+});
+
+testQueries.after.each(({ elements }) => {
+  document.body.removeChild(elements[0]);
+});
+
+testQueries('will find all accessible elements by role', ({ elements }) => {
+  assert.equal(
+    queryAllByRole(elements[0], 'button').map((elem) => elem.textContent),
+    ['Save', 'Advanced'],
+    'wrong elements'
+  );
+});
+
+testQueries('will find elements in detached containers', () => {
+  const div = document.createElement('div');
+  div.innerHTML = '<button>Save</button><button hidden>Reset</button>';
+  assert.equal(
+    queryAllByRole(div, 'button').map((elem) => elem.textContent),
+    ['Save'],
+    'wrong elements'
+  );
+  assert.is(getAccessibilityTree(div), 'button "Save"', 'wrong tree');
+});
+
+testQueries('will find hidden elements if requested', ({ elements }) => {
+  assert.is(
+    queryAllByRole(elements[0], 'button', { hidden: true }).length,
+    3,
+    'hidden element not found'
+  );
+});
+
+testQueries(
+  'will filter by name, description, checked and expanded',
+  ({ elements }) => {
+    const [div] = elements;
+    assert.is(
+      queryByRole(div, 'button', { name: 'Save' })?.textContent,
+      'Save',
+      'name not matched'
+    );
+    assert.is(
+      queryByRole(div, 'button', { name: /adv/i })?.textContent,
+      'Advanced',
+      'regular expression not matched'
+    );
+    assert.is(
+      queryByRole(div, 'button', { description: 'saves all settings' })
+        ?.textContent,
+      'Save',
+      'description not matched'
+    );
+    assert.is(
+      queryByRole(div, 'button', { expanded: true })?.textContent,
+      'Advanced',
+      'expanded not matched'
+    );
+    assert.is(
+      queryByRole(div, 'checkbox', { checked: false })?.getAttribute(
+        'aria-label'
+      ),
+      'Notifications',
+      'checked not matched'
+    );
+    assert.is(
+      queryByRole(div, 'button', { name: (name) => name.length > 10 }),
+      null,
+      'function not matched'
+    );
+  }
+);
+
+testQueries('will normalize names like the predicates', () => {
+  const div = document.createElement('div');
+  div.innerHTML = `<button aria-label="Save
+      draft">x</button><button aria-describedby="desc">Send</button>
+    <span id="desc">Sends   the mail</span>`;
+  document.body.appendChild(div);
+  assert.is(
+    getByRole(div, 'button', { name: 'Save draft' }).textContent,
+    'x',
+    'whitespace not collapsed'
+  );
+  assert.is(
+    queryByRole(div, 'button', { name: 'save', exact: false, ignoreCase: true })
+      ?.textContent,
+    'x',
+    'text matching options ignored'
+  );
+  assert.is(
+    queryByRole(div, 'button', { name: 'Save' }),
+    null,
+    'name not matched exactly'
+  );
+  assert.is(
+    queryByRole(div, 'button', { description: 'Sends the mail' })?.textContent,
+    'Send',
+    'description not normalized'
+  );
+  document.body.removeChild(div);
+});
+
+testQueries('will throw if more than one element is found', ({ elements }) => {
+  assert.throws(
+    () => queryByRole(elements[0], 'checkbox'),
+    (error: Error) =>
+      error.message.startsWith(
+        'Found 2 elements with the role "checkbox": "Dark mode", "Notifications"'
+      ),
+    'wrong error'
+  );
+});
+
+testQueries('will list the roles if nothing is found', ({ elements }) => {
+  assert.throws(
+    () => getByRole(elements[0], 'button', { name: 'Cancel' }),
+    (error: Error) =>
+      error.message ===
+      'Unable to find an element with the role "button", name "Cancel"\n\n' +
+        'Here are the accessible roles:\n\n' +
+        '  button: "Save", "Advanced"\n' +
+        '  checkbox: "Dark mode", "Notifications"\n' +
+        '  heading: "Settings"\n\n' +
+        prettyDOM(elements[0]),
+    'wrong error'
+  );
+  assert.throws(
+    () => getAllByRole(elements[0], 'link'),
+    /Unable to find an element with the role "link"/,
+    'no error'
+  );
+});
+
+testQueries('will wait for an element to appear', async ({ elements }) => {
+  setTimeout(() => elements[0].appendChild(document.createElement('nav')), 10);
+  const nav = await findByRole(elements[0], 'navigation');
+  assert.is(nav.tagName, 'NAV', 'wrong element');
+});
+
+testQueries(
+  'will reject with the last error on timeout',
+  async ({ elements }) => {
+    try {
+      await findByRole(elements[0], 'navigation', {}, { timeout: 20 });
+      assert.unreachable('did not reject');
+    } catch (error: any) {
+      assert.match(error.message, 'Unable to find', 'wrong message');
+    }
+  }
+);
+
+testQueries.run();
@@ -2,448 +2,3462 @@ import {
   computeAccessibleDescription,
   computeAccessibleName
 } from 'dom-accessibility-api';
-import { instance } from 'uvu/assert';
+
+import {
+  matchesText,
+  normalizeText,
+  TextMatch,
+  TextMatchOptions
+} from './textMatch';
+
+export { getDefaultNormalizer } from './textMatch';
+export type { TextMatch, TextMatchOptions } from './textMatch';
+export { waitFor, waitForElementToBeRemoved } from './waitFor';
+export type { WaitForOptions } from './waitFor';
+
+/**
+ * Structured result of the explain variants of the predicates
+ * @property pass true if the predicate would return true
+ * @property actual the value that was found on the element
+ * @property expected the value that was expected
+ * @property reason human-readable description of the result
+ */
+export type Explanation<Actual = unknown, Expected = Actual> = {
+  pass: boolean;
+  actual: Actual;
+  expected: Expected;
+  reason: string;
+};
+
+// elements are detected by node type and namespace instead of the global constructors,
+// which differ for elements of iframes or other windows and may not exist at all
+const nodeTypes = {
+  element: 1,
+  text: 3,
+  comment: 8,
+  document: 9,
+  documentFragment: 11
+};
+
+const isNode = (value: unknown): value is Node =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as Node).nodeType === 'number';
+
+const isElement = (value: unknown): value is Element =>
+  isNode(value) && value.nodeType === nodeTypes.element;
+
+const isDocument = (value: unknown): value is Document =>
+  isNode(value) && value.nodeType === nodeTypes.document;
+
+const isHTMLElement = (value: unknown): value is HTMLElement =>
+  isElement(value) && value.namespaceURI === 'http://www.w3.org/1999/xhtml';
+
+const isHTMLOrSVGElement = (
+  value: unknown
+): value is HTMLElement | SVGElement =>
+  isHTMLElement(value) ||
+  (isElement(value) && value.namespaceURI === 'http://www.w3.org/2000/svg');
+
+const isHTMLElementOf = <K extends keyof HTMLElementTagNameMap>(
+  value: unknown,
+  ...tagNames: K[]
+): value is HTMLElementTagNameMap[K] =>
+  isHTMLElement(value) && (tagNames as string[]).includes(value.localName);
+
+const getWindow = (node: Node) => node.ownerDocument?.defaultView ?? window;
+
+const describeNode = (node: any): string =>
+  isElement(node)
+    ? `<${node.nodeName.toLowerCase()}${
+        node.id
+          ? `#${node.id}`
+          : node.getAttribute('name')
+          ? ` name="${node.getAttribute('name')}"`
+          : ''
+      }>`
+    : String(node);
+
+const formatValue = (value: unknown): string =>
+  typeof value === 'string'
+    ? `'${value}'`
+    : Array.isArray(value)
+    ? `[${value.map(formatValue).join(', ')}]`
+    : value instanceof RegExp || typeof value !== 'object' || value === null
+    ? String(value)
+    : JSON.stringify(value);
+
+const notAnElement = (elem: any) =>
+  `expected an element, got ${describeNode(elem)}`;
+
+const describeComparison = (
+  subject: string,
+  actual: unknown,
+  expected: unknown,
+  pass: boolean,
+  operator: 'equal' | 'contain' = 'equal'
+) => {
+  const verb = expected instanceof RegExp ? 'match' : operator;
+  return pass
+    ? `${subject}: ${formatValue(actual)} ${
+        verb === 'match' ? 'matches' : `${verb}s`
+      } ${formatValue(expected)}`
+    : `${subject}: expected ${
+        verb === 'equal' ? '' : `to ${verb} `
+      }${formatValue(expected)}, got ${formatValue(actual)}`;
+};
+
+const describeTextMatch = (
+  subject: string,
+  text: string,
+  expected: TextMatch,
+  pass: boolean,
+  options: TextMatchOptions | undefined,
+  exact: boolean
+) =>
+  typeof expected === 'function'
+    ? `${subject}: ${formatValue(normalizeText(text, options))} ${
+        pass ? 'matches' : 'does not match'
+      } the matcher function`
+    : describeComparison(
+        subject,
+        normalizeText(text, options),
+        expected,
+        pass,
+        options?.exact ?? exact ? 'equal' : 'contain'
+      );
+
+const isShadowRoot = (node: Node | null): node is ShadowRoot =>
+  node?.nodeType === nodeTypes.documentFragment && 'host' in node;
+
+// the parent in the flat tree: the assigned slot for slotted elements and the host for the children of a shadow root
+const getComposedParent = (elem: Element): Element | null =>
+  elem.assignedSlot ??
+  (isShadowRoot(elem.parentNode) ? elem.parentNode.host : elem.parentElement);
+
+const containsComposed = (ancestor: Node, descendant: Node | null): boolean =>
+  !!descendant &&
+  (ancestor.contains(descendant) ||
+    containsComposed(ancestor, getShadowHost(descendant)));
+
+const getShadowHost = (node: Node) => {
+  const root = node.getRootNode();
+  return isShadowRoot(root) ? root.host : null;
+};
+
+// id references are resolved within the shadow root of the referencing element
+const getElementByIdInRoot = (elem: Element, id: string) => {
+  const root = elem.getRootNode();
+  return (isShadowRoot(root) ? root : elem.ownerDocument).getElementById(id);
+};
+
+const landmarkScopes =
+  'article, aside, main, nav, section, [role="article"], [role="complementary"], [role="main"], [role="navigation"], [role="region"]';
+
+const hasAccessibleNameAttribute = (elem: Element) =>
+  elem.hasAttribute('aria-label') ||
+  elem.hasAttribute('aria-labelledby') ||
+  elem.hasAttribute('title');
+
+const implicitRoles: Record<string, string | ((elem: any) => string | null)> = {
+  a: (elem: HTMLAnchorElement) =>
+    elem.hasAttribute('href') ? 'link' : 'generic',
+  address: 'group',
+  area: (elem: HTMLAreaElement) =>
+    elem.hasAttribute('href') ? 'link' : 'generic',
+  article: 'article',
+  aside: 'complementary',
+  b: 'generic',
+  bdi: 'generic',
+  bdo: 'generic',
+  blockquote: 'blockquote',
+  body: 'generic',
+  button: 'button',
+  caption: 'caption',
+  code: 'code',
+  data: 'generic',
+  datalist: 'listbox',
+  dd: 'definition',
+  del: 'deletion',
+  details: 'group',
+  dfn: 'term',
+  dialog: 'dialog',
+  div: 'generic',
+  dt: 'term',
+  em: 'emphasis',
+  fieldset: 'group',
+  figure: 'figure',
+  footer: (elem: HTMLElement) =>
+    elem.parentElement?.closest(landmarkScopes) ? 'generic' : 'contentinfo',
+  form: (elem: HTMLFormElement) =>
+    hasAccessibleNameAttribute(elem) ? 'form' : null,
+  h1: 'heading',
+  h2: 'heading',
+  h3: 'heading',
+  h4: 'heading',
+  h5: 'heading',
+  h6: 'heading',
+  header: (elem: HTMLElement) =>
+    elem.parentElement?.closest(landmarkScopes) ? 'generic' : 'banner',
+  hgroup: 'group',
+  hr: 'separator',
+  html: 'document',
+  i: 'generic',
+  img: (elem: HTMLImageElement) =>
+    elem.getAttribute('alt') === '' && !hasAccessibleNameAttribute(elem)
+      ? 'presentation'
+      : 'img',
+  input: (elem: HTMLInputElement) => {
+    const type = elem.type;
+    if (['button', 'image', 'reset', 'submit'].includes(type)) {
+      return 'button';
+    }
+    if (['email', 'search', 'tel', 'text', 'url'].includes(type)) {
+      return elem.hasAttribute('list')
+        ? 'combobox'
+        : type === 'search'
+        ? 'searchbox'
+        : 'textbox';
+    }
+    return (
+      (
+        {
+          checkbox: 'checkbox',
+          number: 'spinbutton',
+          radio: 'radio',
+          range: 'slider'
+        } as Record<string, string>
+      )[type] ?? null
+    );
+  },
+  ins: 'insertion',
+  li: (elem: HTMLLIElement) =>
+    elem.parentElement?.matches('ol, ul, menu') ? 'listitem' : 'generic',
+  main: 'main',
+  math: 'math',
+  menu: 'list',
+  meter: 'meter',
+  nav: 'navigation',
+  ol: 'list',
+  optgroup: 'group',
+  option: (elem: HTMLOptionElement) =>
+    elem.parentElement?.matches('select, datalist, optgroup') ? 'option' : null,
+  output: 'status',
+  p: 'paragraph',
+  pre: 'generic',
+  progress: 'progressbar',
+  q: 'generic',
+  s: 'deletion',
+  samp: 'generic',
+  search: 'search',
+  section: (elem: HTMLElement) =>
+    hasAccessibleNameAttribute(elem) ? 'region' : 'generic',
+  select: (elem: HTMLSelectElement) =>
+    elem.multiple || elem.size > 1 ? 'listbox' : 'combobox',
+  small: 'generic',
+  span: 'generic',
+  strong: 'strong',
+  sub: 'subscript',
+  sup: 'superscript',
+  svg: 'graphics-document',
+  table: 'table',
+  tbody: 'rowgroup',
+  td: (elem: HTMLTableCellElement) =>
+    elem.closest('table')?.matches('[role="grid"], [role="treegrid"]')
+      ? 'gridcell'
+      : 'cell',
+  textarea: 'textbox',
+  tfoot: 'rowgroup',
+  th: (elem: HTMLTableCellElement) =>
+    ['row', 'rowgroup'].includes(elem.getAttribute('scope') ?? '')
+      ? 'rowheader'
+      : 'columnheader',
+  thead: 'rowgroup',
+  time: 'time',
+  tr: 'row',
+  u: 'generic',
+  ul: 'list'
+};
+
+/**
+ * Gets the role of an element, either from the role attribute or the implicit role according to the HTML-AAM mapping
+ * @param elem element to get the role from
+ * @returns the role or null if the element has no role or is not an element
+ */
+export const getRole = (elem?: any): string | null => {
+  if (!isHTMLOrSVGElement(elem)) {
+    return null;
+  }
+  const [explicitRole] = (elem.getAttribute('role') ?? '').trim().split(/\s+/);
+  if (explicitRole) {
+    return explicitRole;
+  }
+  const implicitRole = implicitRoles[elem.localName];
+  return typeof implicitRole === 'function'
+    ? implicitRole(elem)
+    : implicitRole ?? null;
+};
+
+/**
+ * Checks if an element has a certain (explicit or implicit) role
+ * @param elem element to be checked
+ * @param role the expected role
+ * @returns true if the element has the role
+ */
+export const hasRole = (elem: any, role: string) => getRole(elem) === role;
 
 /**
- * Checks if the current radio/checkbox element is checked
+ * Explains if an element has a certain (explicit or implicit) role
+ * @param elem element to be checked
+ * @param role the expected role
+ * @returns result with the role of the element as actual value
+ */
+export const explainHasRole = (
+  elem: any,
+  role: string
+): Explanation<string | null, string> => {
+  const actual = getRole(elem);
+  return {
+    pass: actual === role,
+    actual,
+    expected: role,
+    reason: isHTMLOrSVGElement(elem)
+      ? describeComparison('role', actual, role, actual === role)
+      : notAnElement(elem)
+  };
+};
+
+const checkableRoles = [
+  'checkbox',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'option',
+  'radio',
+  'switch'
+];
+
+const isCheckable = (elem?: any): elem is Element =>
+  (isHTMLElementOf(elem, 'input') &&
+    ['checkbox', 'radio'].includes(elem.type)) ||
+  checkableRoles.includes(getRole(elem) ?? '');
+
+/**
+ * Checks if the current radio/checkbox element is checked, using the live checked property of inputs or aria-checked for
+ * elements with the role checkbox, menuitemcheckbox, menuitemradio, option, radio or switch
  * @param {HTMLElement} element to be tested
  * @returns {boolean} true if checked, false if not
  */
-export const isChecked = (elem?: any): boolean => {
-  const isInput = elem instanceof HTMLInputElement;
+export const isChecked = (elem?: any): boolean =>
+  isCheckable(elem) &&
+  (isHTMLElementOf(elem, 'input') && ['checkbox', 'radio'].includes(elem.type)
+    ? elem.checked
+    : elem.getAttribute('aria-checked') === 'true');
+
+/**
+ * Explains if the current radio/checkbox element is checked
+ * @param {HTMLElement} element to be tested
+ * @returns {Explanation} result with the checked state as actual value
+ */
+export const explainIsChecked = (elem?: any): Explanation<boolean> => {
+  const pass = isChecked(elem);
+  return {
+    pass,
+    actual: pass,
+    expected: true,
+    reason: !isCheckable(elem)
+      ? `expected a checkbox or radio element, got ${describeNode(elem)}`
+      : `${describeNode(elem)} is ${pass ? '' : 'not '}checked`
+  };
+};
+
+/**
+ * Checks if the checkbox is partially checked, either by the indeterminate property of a checkbox input or by
+ * aria-checked="mixed" for elements with the role checkbox or menuitemcheckbox
+ * @param elem element to be tested
+ * @returns true if partially checked, false if not
+ */
+export const isPartiallyChecked = (elem?: any): boolean =>
+  isHTMLElementOf(elem, 'input') && elem.type === 'checkbox'
+    ? elem.indeterminate
+    : ['checkbox', 'menuitemcheckbox'].includes(getRole(elem) ?? '') &&
+      elem.getAttribute('aria-checked') === 'mixed';
+
+/**
+ * Explains if the checkbox is partially checked
+ * @param elem element to be tested
+ * @returns result with the partially checked state as actual value
+ */
+export const explainIsPartiallyChecked = (elem?: any): Explanation<boolean> => {
+  const pass = isPartiallyChecked(elem);
+  return {
+    pass,
+    actual: pass,
+    expected: true,
+    reason: !isCheckable(elem)
+      ? `expected a checkbox element, got ${describeNode(elem)}`
+      : `${describeNode(elem)} is ${pass ? '' : 'not '}partially checked`
+  };
+};
+
+const isFormControl = (elem: Element) =>
+  [
+    'BUTTON',
+    'FIELDSET',
+    'INPUT',
+    'OPTGROUP',
+    'OPTION',
+    'SELECT',
+    'TEXTAREA'
+  ].includes(elem.nodeName) ||
+  (elem.constructor as { formAssociated?: boolean }).formAssociated === true;
+
+// a disabled fieldset disables all its descendants except for those inside its first legend
+const getDisablingFieldset = (
+  elem: Element,
+  ancestor = elem.parentElement
+): Element | null =>
+  !ancestor
+    ? null
+    : ancestor.nodeName === 'FIELDSET' &&
+      ancestor.hasAttribute('disabled') &&
+      !ancestor.querySelector(':scope > legend')?.contains(elem)
+    ? ancestor
+    : getDisablingFieldset(elem, ancestor.parentElement);
+
+const getAriaDisablingElement = (elem: Element | null): Element | null =>
+  !elem
+    ? null
+    : elem.getAttribute('aria-disabled') === 'true'
+    ? elem
+    : getAriaDisablingElement(getComposedParent(elem));
+
+const getDisablingElement = (elem: any): Element | null => {
+  if (!isElement(elem)) {
+    return null;
+  }
+  if (!isFormControl(elem)) {
+    // aria-disabled is inherited by descendants that are not native form controls
+    return getAriaDisablingElement(elem);
+  }
+  if (
+    elem.hasAttribute('disabled') ||
+    elem.getAttribute('aria-disabled') === 'true'
+  ) {
+    return elem;
+  }
+  if (elem.nodeName === 'OPTION') {
+    const parent = elem.parentElement;
+    return parent?.nodeName === 'OPTGROUP' && parent.hasAttribute('disabled')
+      ? parent
+      : null;
+  }
+  return elem.nodeName === 'OPTGROUP' ? null : getDisablingFieldset(elem);
+};
+
+/**
+ * Checks if the element is disabled according to the "actually disabled" algorithm of HTML: form controls with a
+ * disabled attribute, inside a disabled fieldset (but not its first legend) or options in a disabled optgroup;
+ * other elements are disabled by aria-disabled on themselves or an ancestor
+ * @param elem {HTMLElement | ParentNode} element to be tested
+ * @returns {boolean} true if disabled, false if not
+ */
+export const isDisabled = (elem: HTMLElement | ParentNode | null): boolean =>
+  getDisablingElement(elem) !== null;
+
+/**
+ * Explains if element is disabled
+ * @param elem {HTMLElement | ParentNode} element to be tested
+ * @returns {Explanation} result with the disabled state as actual value
+ */
+export const explainIsDisabled = (
+  elem: HTMLElement | ParentNode | null
+): Explanation<boolean> => {
+  const source = getDisablingElement(elem);
+  return {
+    pass: source !== null,
+    actual: source !== null,
+    expected: true,
+    reason: !isElement(elem)
+      ? notAnElement(elem)
+      : source === null
+      ? `${describeNode(elem)} is not disabled`
+      : source === elem
+      ? `${describeNode(elem)} is disabled`
+      : `${describeNode(elem)} is disabled by ancestor ${describeNode(source)}`
+  };
+};
+
+/**
+ * Checks if the argument is an element that is not disabled; the complement of isDisabled
+ * @param elem element to be tested
+ * @returns true if the element is enabled, false if it is disabled or not an element
+ */
+export const isEnabled = (elem?: any): boolean =>
+  isElement(elem) && getDisablingElement(elem) === null;
+
+/**
+ * Explains if the argument is an element that is not disabled
+ * @param elem element to be tested
+ * @returns result with the enabled state as actual value
+ */
+export const explainIsEnabled = (elem?: any): Explanation<boolean> => {
+  const result = explainIsDisabled(elem);
+  const pass = isEnabled(elem);
+  return {
+    pass,
+    actual: pass,
+    expected: true,
+    reason: pass ? `${describeNode(elem)} is enabled` : result.reason
+  };
+};
+
+/**
+ * Checks if the argument is a DOM element without other DOM elements inside it
+ * @param elem element to be tested
+ * @returns true if empty, false if not empty or not a dom element
+ */
+export const isEmptyDomElement = (elem?: any): boolean =>
+  isHTMLElement(elem) &&
+  !Array.from(elem.childNodes).some((node) => node.nodeType !== 8);
+
+/**
+ * Explains if the argument is a DOM element without other DOM elements inside it
+ * @param elem element to be tested
+ * @returns result with the number of non-comment child nodes as actual value
+ */
+export const explainIsEmptyDomElement = (
+  elem?: any
+): Explanation<number | null> => {
+  const actual = isHTMLElement(elem)
+    ? Array.from(elem.childNodes).filter((node) => node.nodeType !== 8).length
+    : null;
+  return {
+    pass: isEmptyDomElement(elem),
+    actual,
+    expected: 0,
+    reason:
+      actual === null
+        ? notAnElement(elem)
+        : describeComparison('non-comment child nodes', actual, 0, actual === 0)
+  };
+};
+
+/**
+ * Checks if the argument is a completely empty DOM element
+ * @deprecated use isEmptyDomElement
+ * @param elem element to be test
+ * @returns true if empty, false if not or not a DOM element
+ */
+export const isEmpty = (elem?: any): boolean =>
+  isHTMLElement(elem) && elem.innerHTML === '';
+
+/**
+ * Explains if the argument is a completely empty DOM element
+ * @deprecated use explainIsEmptyDomElement
+ * @param elem element to be test
+ * @returns result with the innerHTML as actual value
+ */
+export const explainIsEmpty = (elem?: any): Explanation<string | null> => {
+  const pass = isEmpty(elem);
+  return {
+    pass,
+    actual: isHTMLElement(elem) ? elem.innerHTML : null,
+    expected: '',
+    reason: isHTMLElement(elem)
+      ? describeComparison('innerHTML', elem.innerHTML, '', pass)
+      : notAnElement(elem)
+  };
+};
+
+/**
+ * Checks if the argument is an element within the current document
+ * @param elem element to be tested
+ * @param doc optional to select a different document to test against, e.g. in an iframe
+ * @returns true if in document, false if not or not a DOM element
+ */
+export const isInDocument = (
+  elem?: any,
+  doc = document
+): elem is HTMLElement | SVGElement =>
+  isHTMLOrSVGElement(elem) && elem.getRootNode({ composed: true }) === doc;
+
+/**
+ * Explains if the argument is an element within the current document
+ * @param elem element to be tested
+ * @param doc optional to select a different document to test against, e.g. in an iframe
+ * @returns result with the mounted state as actual value
+ */
+export const explainIsInDocument = (
+  elem?: any,
+  doc = document
+): Explanation<boolean> => {
+  const pass = isInDocument(elem, doc);
+  return {
+    pass,
+    actual: pass,
+    expected: true,
+    reason: isHTMLOrSVGElement(elem)
+      ? `${describeNode(elem)} is ${pass ? '' : 'not '}in the document`
+      : notAnElement(elem)
+  };
+};
+
+/**
+ * Checks if the argument is an element within the current document
+ * @deprecated use isInDocument
+ * @param elem element to be tested
+ * @param doc optional to select a different document to test against, e.g. in an iframe
+ * @returns true if in document, false if not or not a DOM element
+ */
+export const isInDOM = isInDocument;
+
+const isValidatable = (elem: any): elem is HTMLElement =>
+  isHTMLElement(elem) &&
+  (elem.hasAttribute('aria-invalid') || 'checkValidity' in elem);
+
+const getFieldProblem = (field: Element): string | undefined =>
+  field.getAttribute('aria-invalid') === 'true'
+    ? 'aria-invalid="true"'
+    : 'checkValidity' in field && !(field as HTMLInputElement).checkValidity()
+    ? (field as HTMLInputElement).validationMessage || 'checkValidity() failed'
+    : undefined;
+
+// forms and fieldsets are invalid if any of their fields are, nested fieldsets are covered by their fields
+const getValidityProblem = (elem: HTMLElement): string | undefined => {
+  if (
+    elem.getAttribute('aria-invalid') !== 'true' &&
+    isHTMLElementOf(elem, 'form', 'fieldset')
+  ) {
+    const problems = Array.from(elem.elements)
+      .filter((field) => !isHTMLElementOf(field, 'fieldset'))
+      .map((field) => [field, getFieldProblem(field)] as const)
+      .filter(([, problem]) => problem !== undefined)
+      .map(([field, problem]) => `${describeNode(field)}: ${problem}`);
+    return problems.length
+      ? `${describeNode(elem)} has invalid fields: ${problems.join('; ')}`
+      : undefined;
+  }
+  const problem = getFieldProblem(elem);
+  return problem === undefined
+    ? undefined
+    : problem === 'aria-invalid="true"'
+    ? `${describeNode(elem)} has ${problem}`
+    : `${describeNode(elem)} is invalid: ${problem}`;
+};
+
+/**
+ * Checks if the argument is an invalid form element or a form/fieldset with invalid fields
+ * @param elem element to be tested
+ * @returns true if invalid, false if valid or not validatable (neither a form element nor with aria-invalid)
+ */
+export const isInvalid = (elem?: any): boolean =>
+  isValidatable(elem) && getValidityProblem(elem) !== undefined;
+
+const describeValidity = (elem: any) =>
+  !isHTMLElement(elem)
+    ? notAnElement(elem)
+    : !isValidatable(elem)
+    ? `${describeNode(elem)} cannot be validated`
+    : getValidityProblem(elem) ?? `${describeNode(elem)} is valid`;
+
+/**
+ * Explains if the argument is an invalid form element or a form/fieldset with invalid fields
+ * @param elem element to be tested
+ * @returns result with the invalid state as actual value and the offending fields in the reason
+ */
+export const explainIsInvalid = (elem?: any): Explanation<boolean> => {
+  const pass = isInvalid(elem);
+  return { pass, actual: pass, expected: true, reason: describeValidity(elem) };
+};
+
+/**
+ * Checks if the argument is a valid form element or a form/fieldset without invalid fields
+ * @param elem element to be tested
+ * @returns true if valid, false if invalid or not validatable (neither a form element nor with aria-invalid)
+ */
+export const isValid = (elem?: any): boolean =>
+  isValidatable(elem) && getValidityProblem(elem) === undefined;
+
+/**
+ * Explains if the argument is a valid form element or a form/fieldset without invalid fields
+ * @param elem element to be tested
+ * @returns result with the valid state as actual value and the offending fields in the reason
+ */
+export const explainIsValid = (elem?: any): Explanation<boolean> => {
+  const pass = isValid(elem);
+  return { pass, actual: pass, expected: true, reason: describeValidity(elem) };
+};
+
+const requirableRoles = [
+  'checkbox',
+  'columnheader',
+  'combobox',
+  'gridcell',
+  'listbox',
+  'radiogroup',
+  'rowheader',
+  'spinbutton',
+  'textbox',
+  'tree',
+  'treegrid'
+];
+
+/**
+ * Checks if an argument is an element that can be and is required
+ * @param elem element to be tested
+ * @returns true if required, false if not
+ */
+export const isRequired = (elem?: any) =>
+  (isHTMLElement(elem) &&
+    ((isHTMLElementOf(elem, 'input') &&
+      !['color', 'hidden', 'range', 'submit', 'image', 'reset'].includes(
+        elem.getAttribute('type') ?? 'text'
+      )) ||
+      isHTMLElementOf(elem, 'textarea', 'select')) &&
+    elem.hasAttribute('required')) ||
+  (requirableRoles.includes(getRole(elem) ?? '') &&
+    elem?.getAttribute('aria-required') === 'true');
+
+/**
+ * Explains if an argument is an element that can be and is required
+ * @param elem element to be tested
+ * @returns result with the required state as actual value
+ */
+export const explainIsRequired = (elem?: any): Explanation<boolean> => {
+  const pass = isRequired(elem);
+  return {
+    pass,
+    actual: pass,
+    expected: true,
+    reason: isHTMLElement(elem)
+      ? `${describeNode(elem)} is ${pass ? '' : 'not '}required`
+      : notAnElement(elem)
+  };
+};
+
+const describeUnsupportedState = (elem: any, attribute: string) =>
+  isElement(elem)
+    ? `${describeNode(elem)} ${
+        getRole(elem) ? `with role ${getRole(elem)}` : 'without a role'
+      } does not support ${attribute}`
+    : notAnElement(elem);
+
+/**
+ * Checks if the element is busy, e.g. while its content is updated
+ * @param elem element to be tested
+ * @returns true if aria-busy is true
+ */
+export const isBusy = (elem?: any): boolean =>
+  isElement(elem) && elem.getAttribute('aria-busy') === 'true';
+
+/**
+ * Explains if the element is busy
+ * @param elem element to be tested
+ * @returns result with the busy state as actual value
+ */
+export const explainIsBusy = (elem?: any): Explanation<boolean> => {
+  const pass = isBusy(elem);
+  return {
+    pass,
+    actual: pass,
+    expected: true,
+    reason: isElement(elem)
+      ? `${describeNode(elem)} is ${pass ? '' : 'not '}busy`
+      : notAnElement(elem)
+  };
+};
+
+const expandableRoles = [
+  'application',
+  'button',
+  'checkbox',
+  'columnheader',
+  'combobox',
+  'gridcell',
+  'link',
+  'listbox',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'row',
+  'rowheader',
+  'switch',
+  'tab',
+  'treeitem'
+];
+
+const getExpandedState = (elem: any): boolean | undefined =>
+  isHTMLElement(elem) &&
+  elem.nodeName === 'SUMMARY' &&
+  elem.parentElement?.nodeName === 'DETAILS'
+    ? elem.parentElement.hasAttribute('open')
+    : expandableRoles.includes(getRole(elem) ?? '') &&
+      elem.hasAttribute('aria-expanded')
+    ? elem.getAttribute('aria-expanded') === 'true'
+    : undefined;
+
+/**
+ * Checks if the element is expanded, either by aria-expanded on a role supporting it or as the summary of an open details element
+ * @param elem element to be tested
+ * @returns true if expanded, false if collapsed or not expandable
+ */
+export const isExpanded = (elem?: any): boolean =>
+  getExpandedState(elem) === true;
+
+/**
+ * Explains if the element is expanded
+ * @param elem element to be tested
+ * @returns result with the expanded state as actual value
+ */
+export const explainIsExpanded = (elem?: any): Explanation<boolean> => {
+  const state = getExpandedState(elem);
+  return {
+    pass: state === true,
+    actual: state === true,
+    expected: true,
+    reason:
+      state === undefined
+        ? describeUnsupportedState(elem, 'aria-expanded')
+        : `${describeNode(elem)} is ${state ? 'expanded' : 'collapsed'}`
+  };
+};
+
+const getPressedState = (elem: any): boolean | 'mixed' =>
+  getRole(elem) === 'button'
+    ? elem.getAttribute('aria-pressed') === 'mixed'
+      ? 'mixed'
+      : elem.getAttribute('aria-pressed') === 'true'
+    : false;
+
+/**
+ * Checks if the toggle button is pressed
+ * @param elem element to be tested
+ * @param state optional 'mixed' to check for a partially pressed button instead
+ * @returns true if aria-pressed matches the state on an element with role button
+ */
+export const isPressed = (elem?: any, state: true | 'mixed' = true): boolean =>
+  getPressedState(elem) === state;
+
+/**
+ * Explains if the toggle button is pressed
+ * @param elem element to be tested
+ * @param state optional 'mixed' to check for a partially pressed button instead
+ * @returns result with the pressed state as actual value
+ */
+export const explainIsPressed = (
+  elem?: any,
+  state: true | 'mixed' = true
+): Explanation<boolean | 'mixed', true | 'mixed'> => {
+  const actual = getPressedState(elem);
+  return {
+    pass: actual === state,
+    actual,
+    expected: state,
+    reason:
+      getRole(elem) === 'button'
+        ? describeComparison('aria-pressed', actual, state, actual === state)
+        : describeUnsupportedState(elem, 'aria-pressed')
+  };
+};
+
+const selectableRoles = [
+  'columnheader',
+  'gridcell',
+  'option',
+  'row',
+  'rowheader',
+  'tab',
+  'treeitem'
+];
+
+/**
+ * Checks if the element is selected, either as a native option or by aria-selected on a role supporting it
+ * @param elem element to be tested
+ * @returns true if selected
+ */
+export const isSelected = (elem?: any): boolean =>
+  isHTMLElementOf(elem, 'option')
+    ? elem.selected
+    : selectableRoles.includes(getRole(elem) ?? '') &&
+      elem.getAttribute('aria-selected') === 'true';
+
+/**
+ * Explains if the element is selected
+ * @param elem element to be tested
+ * @returns result with the selected state as actual value
+ */
+export const explainIsSelected = (elem?: any): Explanation<boolean> => {
+  const pass = isSelected(elem);
+  return {
+    pass,
+    actual: pass,
+    expected: true,
+    reason:
+      isHTMLElementOf(elem, 'option') ||
+      selectableRoles.includes(getRole(elem) ?? '')
+        ? `${describeNode(elem)} is ${pass ? '' : 'not '}selected`
+        : describeUnsupportedState(elem, 'aria-selected')
+  };
+};
+
+/**
+ * Options to opt rules of isVisible in or out, all enabled by default
+ * @property clip hide elements clipped by `clip: rect(...)` or `clip-path: inset(50%)` or more, e.g. sr-only patterns
+ * @property overflow hide content of elements with `overflow: hidden` that are 1px or smaller
+ * @property contentVisibility hide content of elements with `content-visibility: hidden`
+ * @property inert hide elements with an inert attribute on themselves or an ancestor
+ * @property details hide content of closed details elements except for the summary
+ * @property dialog hide dialog elements without the open attribute
+ * @property displayContents skip the size check for elements with `display: contents`, as they have no box of their own
+ */
+export type VisibilityOptions = {
+  clip?: boolean;
+  overflow?: boolean;
+  contentVisibility?: boolean;
+  inert?: boolean;
+  details?: boolean;
+  dialog?: boolean;
+  displayContents?: boolean;
+};
+
+// jsdom drops declarations it cannot parse, like `clip: rect(0 0 0 0)` or any
+// content-visibility, so fall back to the style attribute for those
+const getStyleValue = (
+  elem: Element,
+  style: CSSStyleDeclaration,
+  property: string
+) =>
+  style.getPropertyValue(property) ||
+  (new RegExp(
+    `(?:^|;)\\s*${property}\\s*:\\s*([^;]*?)\\s*(?:!important\\s*)?(?:;|$)`,
+    'i'
+  ).exec(elem.getAttribute('style') ?? '')?.[1] ??
+    '');
+
+const isClipped = (clip: string, clipPath: string) => {
+  const [top, right, bottom, left] = (
+    /^rect\((.*)\)$/.exec(clip)?.[1].split(/[\s,]+/) ?? []
+  ).map(parseFloat);
+  const inset = /^inset\(([\d.]+)%/.exec(clipPath)?.[1];
+  return (
+    bottom <= top ||
+    right <= left ||
+    (inset !== undefined && Number(inset) >= 50)
+  );
+};
+
+const isInClosedDetails = (elem: Element) => {
+  const parent = elem.parentElement;
   return (
-    elem instanceof HTMLElement &&
-    ['checkbox', 'radio'].includes(
-      elem.getAttribute(isInput ? 'type' : 'role') ?? ''
-    ) &&
-    (elem.getAttribute('checked') ?? 'false') !== 'false'
+    parent?.nodeName === 'DETAILS' &&
+    !parent.hasAttribute('open') &&
+    elem !== parent.querySelector(':scope > summary')
   );
 };
 
+const getInvisibilityReason = (
+  elem: any,
+  options: Required<VisibilityOptions>,
+  isAncestor = false
+): string | undefined => {
+  if (!isInDocument(elem, elem?.ownerDocument)) {
+    return `${describeNode(elem)} is not in the document`;
+  }
+  if ((elem.getAttribute('hidden') ?? 'false') !== 'false') {
+    return `${describeNode(elem)} has the hidden attribute`;
+  }
+  if (options.inert && elem.hasAttribute('inert')) {
+    return `${describeNode(elem)} has the inert attribute`;
+  }
+  if (
+    options.dialog &&
+    elem.nodeName === 'DIALOG' &&
+    !elem.hasAttribute('open')
+  ) {
+    return `${describeNode(elem)} is not open`;
+  }
+  if (options.details && isInClosedDetails(elem)) {
+    return `${describeNode(elem.parentElement)} is closed`;
+  }
+  const style = getWindow(elem).getComputedStyle(elem);
+  const { display, visibility, opacity, height, width, overflow } = style;
+  if (display === 'none') {
+    return `${describeNode(elem)} has display: none`;
+  }
+  if (visibility === 'hidden' || visibility === 'collapse') {
+    return `${describeNode(elem)} has visibility: ${visibility}`;
+  }
+  if (Number(opacity || '1') === 0) {
+    return `${describeNode(elem)} has opacity: 0`;
+  }
+  const clip = getStyleValue(elem, style, 'clip');
+  const clipPath = getStyleValue(elem, style, 'clip-path');
+  if (options.clip && isClipped(clip, clipPath)) {
+    return `${describeNode(elem)} is clipped (clip: ${
+      clip || 'auto'
+    }, clip-path: ${clipPath || 'none'})`;
+  }
+  if (
+    options.contentVisibility &&
+    isAncestor &&
+    getStyleValue(elem, style, 'content-visibility') === 'hidden'
+  ) {
+    return `${describeNode(elem)} has content-visibility: hidden`;
+  }
+  if (
+    options.overflow &&
+    /hidden|clip/.test(overflow) &&
+    (parseFloat(width) <= 1 || parseFloat(height) <= 1)
+  ) {
+    return `${describeNode(
+      elem
+    )} has overflow: ${overflow} and is too small (width: ${width}, height: ${height})`;
+  }
+  if (
+    ![
+      'inline',
+      'static',
+      ...(options.displayContents ? ['contents'] : [])
+    ].includes(display) &&
+    // sizes like auto are unknown rather than zero
+    (parseFloat(width) <= 0 || parseFloat(height) <= 0)
+  ) {
+    return `${describeNode(
+      elem
+    )} has no size (width: ${width}, height: ${height})`;
+  }
+  if (elem.parentElement?.shadowRoot && !elem.assignedSlot) {
+    return `${describeNode(elem)} is not assigned to a slot`;
+  }
+  const parent = getComposedParent(elem);
+  return parent === elem.ownerDocument.documentElement
+    ? undefined
+    : getInvisibilityReason(parent, options, true);
+};
+
+const defaultVisibilityOptions: Required<VisibilityOptions> = {
+  clip: true,
+  overflow: true,
+  contentVisibility: true,
+  inert: true,
+  details: true,
+  dialog: true,
+  displayContents: true
+};
+
+/**
+ * Checks if element should be visible
+ * @param elem element to be checked
+ * @param options optional rules to opt out of, see VisibilityOptions
+ * @returns true if the element should be visible, false if it shouldn't
+ */
+export const isVisible = (elem?: any, options?: VisibilityOptions): boolean =>
+  getInvisibilityReason(elem, { ...defaultVisibilityOptions, ...options }) ===
+  undefined;
+
+/**
+ * Explains if element should be visible
+ * @param elem element to be checked
+ * @param options optional rules to opt out of, see VisibilityOptions
+ * @returns result with the visibility as actual value and the element or ancestor that hides it in the reason
+ */
+export const explainIsVisible = (
+  elem?: any,
+  options?: VisibilityOptions
+): Explanation<boolean> => {
+  const reason = getInvisibilityReason(elem, {
+    ...defaultVisibilityOptions,
+    ...options
+  });
+  return {
+    pass: reason === undefined,
+    actual: reason === undefined,
+    expected: true,
+    reason: reason ?? `${describeNode(elem)} is visible`
+  };
+};
+
+const isFocusable = (elem: Element) =>
+  elem.hasAttribute('tabindex') ||
+  (elem as HTMLElement).isContentEditable ||
+  (['A', 'AREA'].includes(elem.nodeName) && elem.hasAttribute('href')) ||
+  (['BUTTON', 'INPUT', 'SELECT', 'TEXTAREA'].includes(elem.nodeName) &&
+    !elem.hasAttribute('disabled')) ||
+  ['IFRAME', 'SUMMARY'].includes(elem.nodeName);
+
+const getInaccessibilityReason = (
+  elem: any,
+  isAncestor = false
+): string | undefined => {
+  if (!isElement(elem)) {
+    return notAnElement(elem);
+  }
+  if (elem.hasAttribute('hidden')) {
+    return `${describeNode(elem)} has the hidden attribute`;
+  }
+  if (elem.getAttribute('aria-hidden') === 'true') {
+    return `${describeNode(elem)} has aria-hidden="true"`;
+  }
+  if (elem.hasAttribute('inert')) {
+    return `${describeNode(elem)} has the inert attribute`;
+  }
+  const { display, visibility } = getWindow(elem).getComputedStyle(elem);
+  if (display === 'none') {
+    return `${describeNode(elem)} has display: none`;
+  }
+  // visibility is inherited, but can be overridden by descendants, so only the element itself counts
+  if (!isAncestor && (visibility === 'hidden' || visibility === 'collapse')) {
+    return `${describeNode(elem)} has visibility: ${visibility}`;
+  }
+  // detached containers are searched by queries as well, so the walk ends at the root of the tree
+  const parent = getComposedParent(elem);
+  return !parent || parent === elem.ownerDocument.documentElement
+    ? undefined
+    : getInaccessibilityReason(parent, true);
+};
+
+/**
+ * Checks if the element is excluded from the accessibility tree, following the semantics of dom-testing-library
+ * @param elem element to be checked
+ * @returns true if the element or an ancestor is hidden from assistive technology
+ */
+export const isInaccessible = (elem?: any): boolean =>
+  getInaccessibilityReason(elem) !== undefined;
+
+/**
+ * Explains if the element is excluded from the accessibility tree
+ * @param elem element to be checked
+ * @returns result with the inaccessibility as actual value and the element or ancestor that hides it in the reason
+ */
+export const explainIsInaccessible = (elem?: any): Explanation<boolean> => {
+  const reason = getInaccessibilityReason(elem);
+  return {
+    pass: reason !== undefined,
+    actual: reason !== undefined,
+    expected: true,
+    reason:
+      reason ?? `${describeNode(elem)} is exposed to the accessibility tree`
+  };
+};
+
+/**
+ * Checks if the element is exposed to the accessibility tree; the complement of isInaccessible
+ * @param elem element to be checked
+ * @returns true if the element is available to assistive technology
+ */
+export const isExposedToAccessibilityTree = (elem?: any): boolean =>
+  getInaccessibilityReason(elem) === undefined;
+
+/**
+ * Explains if the element is exposed to the accessibility tree
+ * @param elem element to be checked
+ * @returns result with the exposure as actual value and the element or ancestor that hides it in the reason
+ */
+export const explainIsExposedToAccessibilityTree = (
+  elem?: any
+): Explanation<boolean> => {
+  const reason = getInaccessibilityReason(elem);
+  return {
+    pass: reason === undefined,
+    actual: reason === undefined,
+    expected: true,
+    reason:
+      reason ?? `${describeNode(elem)} is exposed to the accessibility tree`
+  };
+};
+
+// roles that are left out of the tree, their content is attached to the parent node instead
+const transparentRoles = ['generic', 'none', 'presentation'];
+
+// the presentational role of a table or list is inherited by its rows, cells and items unless they have a role of their own
+const presentationalOwners: Record<string, string> = {
+  cell: 'table',
+  columnheader: 'table',
+  listitem: 'ul, ol, menu',
+  row: 'table',
+  rowgroup: 'table',
+  rowheader: 'table'
+};
+
+const hasPresentationalOwner = (elem: Element, role: string) => {
+  const owner =
+    !elem.hasAttribute('role') && role in presentationalOwners
+      ? elem.parentElement?.closest(presentationalOwners[role])
+      : null;
+  return !!owner && ['presentation', 'none'].includes(getRole(owner) ?? '');
+};
+
+// roles whose descendants are presentational according to WAI-ARIA
+const childrenPresentationalRoles = [
+  'button',
+  'checkbox',
+  'img',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'meter',
+  'option',
+  'progressbar',
+  'radio',
+  'scrollbar',
+  'separator',
+  'slider',
+  'switch',
+  'tab'
+];
+
+// roles that get their name from their content, so their text is not repeated
+const nameFromContentRoles = [
+  'cell',
+  'columnheader',
+  'gridcell',
+  'heading',
+  'link',
+  'menuitem',
+  'row',
+  'rowheader',
+  'tooltip',
+  'treeitem'
+];
+
+const getAccessibleStates = (elem: Element): string[] => {
+  const expanded = getExpandedState(elem);
+  const pressed = getPressedState(elem);
+  const current = getCurrent(elem);
+  const level =
+    elem.getAttribute('aria-level') ??
+    (/^H[1-6]$/.test(elem.nodeName) ? elem.nodeName[1] : null);
+  return [
+    isBusy(elem) && 'busy',
+    isPartiallyChecked(elem) ? 'checked=mixed' : isChecked(elem) && 'checked',
+    current !== false && `current=${current}`,
+    isDisabled(elem) && 'disabled',
+    expanded !== undefined && `expanded=${expanded}`,
+    level && getRole(elem) === 'heading' && `level=${level}`,
+    pressed === 'mixed' ? 'pressed=mixed' : pressed && 'pressed',
+    isSelected(elem) && 'selected',
+    isRequired(elem) && 'required',
+    (elem.getAttribute('aria-invalid') ?? 'false') !== 'false' && 'invalid'
+  ].filter((state): state is string => typeof state === 'string');
+};
+
+const serializeAccessibilityTree = (
+  node: Node,
+  depth: number,
+  skipText: boolean
+): string[] => {
+  if (node.nodeType === nodeTypes.text) {
+    const text = (node.textContent ?? '').replace(/\s+/g, ' ').trim();
+    return text && !skipText ? [`${'  '.repeat(depth)}text "${text}"`] : [];
+  }
+  if (!isElement(node) || isInaccessible(node)) {
+    return [];
+  }
+  const role = getRole(node);
+  const children = (childDepth: number, skipChildText: boolean) =>
+    Array.from(node.childNodes).flatMap((child) =>
+      serializeAccessibilityTree(child, childDepth, skipChildText)
+    );
+  if (
+    !role ||
+    transparentRoles.includes(role) ||
+    hasPresentationalOwner(node, role)
+  ) {
+    return children(depth, skipText);
+  }
+  const name = computeAccessibleName(node);
+  const description = computeAccessibleDescription(node);
+  const states = getAccessibleStates(node);
+  const line = [
+    `${'  '.repeat(depth)}${role}`,
+    name && `"${name}"`,
+    description && `description="${description}"`,
+    states.length && `[${states.join(', ')}]`
+  ]
+    .filter(Boolean)
+    .join(' ');
+  return childrenPresentationalRoles.includes(role)
+    ? [line]
+    : [line, ...children(depth + 1, nameFromContentRoles.includes(role))];
+};
+
+/**
+ * Serializes what assistive technology sees in the container to an indented text, e.g. for snapshots;
+ * every line contains the role, accessible name, description and states, like `button "Save" [disabled]`
+ * @param container element or document to be serialized, the container itself is not included
+ * @returns the accessibility tree as text, skipping nodes that are excluded from the accessibility tree
+ */
+export const getAccessibilityTree = (container: Element | Document): string =>
+  Array.from((isDocument(container) ? container.body : container).childNodes)
+    .flatMap((child) => serializeAccessibilityTree(child, 0, false))
+    .join('\n');
+
+/**
+ * Options for prettyDOM
+ * @property maxLength maximum length of the output before it is truncated, defaults to 7000
+ * @property highlight color tags, attributes and comments with ANSI escape codes, defaults to false
+ * @property filterNode function to decide which nodes are printed, by default scripts and styles are left out
+ * @property annotateState append the live checked state, value and inherited disabled state if they differ from the attributes, defaults to false
+ */
+export type PrettyDOMOptions = {
+  maxLength?: number;
+  highlight?: boolean;
+  filterNode?: (node: Node) => boolean;
+  annotateState?: boolean;
+};
+
+const defaultPrettyDOMOptions: Required<PrettyDOMOptions> = {
+  maxLength: 7000,
+  highlight: false,
+  filterNode: (node) =>
+    !isElement(node) || !['script', 'style'].includes(node.localName),
+  annotateState: false
+};
+
+const voidElements = [
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr'
+];
+
+const highlightColors = { tag: 36, attribute: 33, value: 32, comment: 90 };
+
+const colorize = (
+  text: string,
+  color: keyof typeof highlightColors,
+  highlight: boolean
+) => (highlight ? `\u001b[${highlightColors[color]}m${text}\u001b[39m` : text);
+
+// Solid's comment markers and empty placeholders carry no information for the reader
+const isPlaceholderComment = (node: Node) =>
+  node.nodeType === nodeTypes.comment &&
+  /^[\s#/!$]*$/.test((node as Comment).data);
+
+const hasChangedSelection = (select: HTMLSelectElement) => {
+  const options = Array.from(select.options);
+  const defaults = options.filter((option) => option.defaultSelected);
+  const initial =
+    defaults.length || select.multiple ? defaults : options.slice(0, 1);
+  const selected = Array.from(select.selectedOptions);
+  return (
+    initial.length !== selected.length ||
+    initial.some((option, index) => option !== selected[index])
+  );
+};
+
+// only the state that cannot be read from the attributes is annotated
+const getStateAnnotations = (elem: Element) =>
+  [
+    isHTMLElementOf(elem, 'input') &&
+      ['checkbox', 'radio'].includes(elem.type) &&
+      elem.checked !== elem.defaultChecked &&
+      (elem.checked ? 'checked' : 'unchecked'),
+    isHTMLElementOf(elem, 'input', 'textarea') &&
+      !['checkbox', 'radio'].includes(elem.type) &&
+      elem.value !== elem.defaultValue &&
+      `value=${formatValue(elem.value)}`,
+    isHTMLElementOf(elem, 'select') &&
+      hasChangedSelection(elem) &&
+      `value=${formatValue(
+        elem.multiple
+          ? Array.from(elem.selectedOptions).map((option) => option.value)
+          : elem.value
+      )}`,
+    isDisabled(elem) &&
+      !elem.hasAttribute('disabled') &&
+      elem.getAttribute('aria-disabled') !== 'true' &&
+      'disabled'
+  ].filter(
+    (annotation): annotation is string => typeof annotation === 'string'
+  );
+
+// text is escaped like in innerHTML, so it cannot be mistaken for markup
+const escapeMarkup = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const printNode = (
+  node: Node,
+  depth: number,
+  options: Required<PrettyDOMOptions>
+): string[] => {
+  const indent = '  '.repeat(depth);
+  if (!options.filterNode(node)) {
+    return [];
+  }
+  if (node.nodeType === nodeTypes.text) {
+    const text = escapeMarkup(
+      (node.textContent ?? '').replace(/\s+/g, ' ')
+    ).trim();
+    return text ? [`${indent}${text}`] : [];
+  }
+  if (node.nodeType === nodeTypes.comment) {
+    return isPlaceholderComment(node)
+      ? []
+      : [
+          `${indent}${colorize(
+            `<!--${(node as Comment).data}-->`,
+            'comment',
+            options.highlight
+          )}`
+        ];
+  }
+  const children = (parent: Node, childDepth: number) =>
+    Array.from(parent.childNodes).flatMap((child) =>
+      printNode(child, childDepth, options)
+    );
+  if (!isElement(node)) {
+    return children(node, depth);
+  }
+  const name = node.localName;
+  const attributes = Array.from(node.attributes)
+    .filter(({ name }) => name !== 'data-hk')
+    .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+    .map(
+      ({ name, value }) =>
+        ` ${colorize(name, 'attribute', options.highlight)}=${colorize(
+          `"${value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}"`,
+          'value',
+          options.highlight
+        )}`
+    )
+    .join('');
+  const states = options.annotateState ? getStateAnnotations(node) : [];
+  const annotation = states.length
+    ? ` ${colorize(
+        `<!-- ${states.join(', ')} -->`,
+        'comment',
+        options.highlight
+      )}`
+    : '';
+  const tag = (text: string) => colorize(text, 'tag', options.highlight);
+  if (voidElements.includes(name)) {
+    return [
+      `${indent}${tag(`<${name}`)}${attributes}${tag(' />')}${annotation}`
+    ];
+  }
+  const open = `${indent}${tag(`<${name}`)}${attributes}${tag('>')}`;
+  const content = [
+    ...(node.shadowRoot
+      ? [`${indent}  #shadow-root`, ...children(node.shadowRoot, depth + 2)]
+      : []),
+    ...children(node, depth + 1)
+  ];
+  return content.length
+    ? [`${open}${annotation}`, ...content, `${indent}${tag(`</${name}>`)}`]
+    : [`${open}${tag(`</${name}>`)}${annotation}`];
+};
+
+/**
+ * Prints the node as indented markup with sorted attributes, e.g. for snapshots or failure messages;
+ * Solid's hydration keys and comment markers are left out
+ * @param node element, document (printing its body) or document fragment to be printed, other values are converted to strings
+ * @param options optional maximum length, highlighting, node filter and state annotations, see PrettyDOMOptions
+ * @returns the printed markup, truncated with `...` if longer than the maximum length
+ */
+export const prettyDOM = (node?: any, options?: PrettyDOMOptions): string => {
+  if (!isNode(node)) {
+    return String(node);
+  }
+  const settings = { ...defaultPrettyDOMOptions, ...options };
+  const printed = printNode(
+    isDocument(node) ? node.body : node,
+    0,
+    settings
+  ).join('\n');
+  return printed.length > settings.maxLength
+    ? `${printed.slice(0, settings.maxLength)}...`
+    : printed;
+};
+
+/**
+ * Rules checked by auditAccessibility
+ * - `accessible-name`: interactive elements without an accessible name
+ * - `duplicate-id`: ids that are used by more than one element
+ * - `aria-reference`: aria-labelledby, aria-describedby or aria-errormessage referencing missing ids
+ * - `label`: form fields without a label, aria-label, aria-labelledby or title
+ * - `image-alt`: images without an alt attribute
+ * - `tabindex`: positive tabindex values that break the natural tab order
+ */
+export type AccessibilityRule =
+  | 'accessible-name'
+  | 'duplicate-id'
+  | 'aria-reference'
+  | 'label'
+  | 'image-alt'
+  | 'tabindex';
+
+/**
+ * Violation found by auditAccessibility
+ * @property rule the id of the violated rule
+ * @property element the element violating the rule
+ * @property message human-readable description of the violation
+ */
+export type AccessibilityViolation = {
+  rule: AccessibilityRule;
+  element: Element;
+  message: string;
+};
+
+/**
+ * Options for auditAccessibility and isAccessible
+ * @property rules the rules to check, defaults to all rules
+ */
+export type AccessibilityAuditOptions = {
+  rules?: AccessibilityRule[];
+};
+
+const interactiveRoles = [
+  'button',
+  'checkbox',
+  'combobox',
+  'link',
+  'listbox',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'option',
+  'radio',
+  'searchbox',
+  'slider',
+  'spinbutton',
+  'switch',
+  'tab',
+  'textbox',
+  'treeitem'
+];
+
+const isLabelableField = (elem: Element) =>
+  ['SELECT', 'TEXTAREA'].includes(elem.nodeName) ||
+  (elem.nodeName === 'INPUT' &&
+    !['button', 'hidden', 'image', 'reset', 'submit'].includes(
+      (elem as HTMLInputElement).type
+    ));
+
+const auditRules: Record<
+  AccessibilityRule,
+  (elem: Element, elements: Element[]) => string | undefined
+> = {
+  'accessible-name': (elem) =>
+    !isLabelableField(elem) &&
+    interactiveRoles.includes(getRole(elem) ?? '') &&
+    !isInaccessible(elem) &&
+    !computeAccessibleName(elem)
+      ? `${describeNode(elem)} with role ${getRole(
+          elem
+        )} has no accessible name`
+      : undefined,
+  'duplicate-id': (elem, elements) => {
+    const count = elem.id
+      ? elements.filter(({ id }) => id === elem.id).length
+      : 0;
+    return count > 1
+      ? `id "${elem.id}" is used by ${count} elements`
+      : undefined;
+  },
+  'aria-reference': (elem) => {
+    const missing = [
+      'aria-labelledby',
+      'aria-describedby',
+      'aria-errormessage'
+    ].flatMap((attribute) =>
+      (elem.getAttribute(attribute) ?? '')
+        .split(/\s+/)
+        .filter((id) => id && !getElementByIdInRoot(elem, id))
+        .map((id) => `${attribute}="${id}"`)
+    );
+    return missing.length
+      ? `${describeNode(elem)} references missing ids: ${missing.join(', ')}`
+      : undefined;
+  },
+  label: (elem) =>
+    isLabelableField(elem) &&
+    !isInaccessible(elem) &&
+    !(elem as HTMLInputElement).labels?.length &&
+    !['aria-label', 'aria-labelledby', 'title'].some((attribute) =>
+      elem.getAttribute(attribute)?.trim()
+    )
+      ? `${describeNode(elem)} has no label`
+      : undefined,
+  'image-alt': (elem) =>
+    elem.nodeName === 'IMG' &&
+    !elem.hasAttribute('alt') &&
+    !isInaccessible(elem) &&
+    !computeAccessibleName(elem)
+      ? `${describeNode(elem)} has no alt attribute`
+      : undefined,
+  tabindex: (elem) =>
+    Number(elem.getAttribute('tabindex')) > 0
+      ? `${describeNode(elem)} has a positive tabindex (${elem.getAttribute(
+          'tabindex'
+        )})`
+      : undefined
+};
+
+/**
+ * Audits the container and its descendants for common accessibility issues
+ * @param container element or document to be audited
+ * @param options optional rules to check, see AccessibilityRule
+ * @returns list of violations with the rule, element and message, empty if there are none
+ */
+export const auditAccessibility = (
+  container: Element | Document,
+  {
+    rules = Object.keys(auditRules) as AccessibilityRule[]
+  }: AccessibilityAuditOptions = {}
+): AccessibilityViolation[] => {
+  const elements = [
+    ...(isElement(container) ? [container] : []),
+    ...Array.from(container.querySelectorAll('*'))
+  ];
+  return elements.flatMap((element) =>
+    rules.flatMap((rule) => {
+      const message = auditRules[rule](element, elements);
+      return message ? [{ rule, element, message }] : [];
+    })
+  );
+};
+
+/**
+ * Checks if the container and its descendants have none of the common accessibility issues of auditAccessibility
+ * @param container element or document to be checked
+ * @param options optional rules to check, see AccessibilityRule
+ * @returns true if there are no violations
+ */
+export const isAccessible = (
+  container: Element | Document,
+  options?: AccessibilityAuditOptions
+): boolean => auditAccessibility(container, options).length === 0;
+
+/**
+ * Explains if the container and its descendants have none of the common accessibility issues of auditAccessibility
+ * @param container element or document to be checked
+ * @param options optional rules to check, see AccessibilityRule
+ * @returns result with the messages of the violations as actual value
+ */
+export const explainIsAccessible = (
+  container: Element | Document,
+  options?: AccessibilityAuditOptions
+): Explanation<string[]> => {
+  const actual = auditAccessibility(container, options).map(
+    ({ rule, message }) => `${rule}: ${message}`
+  );
+  return {
+    pass: actual.length === 0,
+    actual,
+    expected: [],
+    reason: actual.length
+      ? `${actual.length} accessibility violation(s): ${actual.join('; ')}`
+      : `${describeNode(container)} has no accessibility violations`
+  };
+};
+
+const hasAccessibleText = (
+  actual: string,
+  elem: Element,
+  expected: TextMatch | undefined,
+  options: TextMatchOptions | undefined
+) =>
+  expected
+    ? matchesText(actual, expected, elem, options, false)
+    : normalizeText(actual, options) !== '';
+
+/**
+ * Checks if the element has an accessible description
+ * @param elem element to be checked
+ * @param expected optional text to be contained in the description, regular expression or function to be checked against
+ * @param options optional text matching options, see TextMatchOptions
+ * @returns true if the element has an accessible description
+ */
+export const hasAccessibleDescription = (
+  elem?: any,
+  expected?: TextMatch,
+  options?: TextMatchOptions
+) =>
+  isHTMLOrSVGElement(elem) &&
+  hasAccessibleText(
+    computeAccessibleDescription(elem),
+    elem,
+    expected,
+    options
+  );
+
+const describeAccessibleText = (
+  subject: string,
+  actual: string,
+  expected: TextMatch | undefined,
+  pass: boolean,
+  options: TextMatchOptions | undefined
+) =>
+  expected
+    ? describeTextMatch(subject, actual, expected, pass, options, false)
+    : pass
+    ? `${subject}: ${formatValue(actual)} is present`
+    : `${subject}: expected a non-empty text, got ${formatValue(actual)}`;
+
+/**
+ * Explains if the element has an accessible description
+ * @param elem element to be checked
+ * @param expected optional text to be contained in the description, regular expression or function to be checked against
+ * @param options optional text matching options, see TextMatchOptions
+ * @returns result with the computed accessible description as actual value
+ */
+export const explainHasAccessibleDescription = (
+  elem?: any,
+  expected?: TextMatch,
+  options?: TextMatchOptions
+): Explanation<string | null, TextMatch | undefined> => {
+  const pass = hasAccessibleDescription(elem, expected, options);
+  if (isHTMLOrSVGElement(elem)) {
+    const actual = computeAccessibleDescription(elem);
+    return {
+      pass,
+      actual,
+      expected,
+      reason: describeAccessibleText(
+        'accessible description',
+        actual,
+        expected,
+        pass,
+        options
+      )
+    };
+  }
+  return { pass, actual: null, expected, reason: notAnElement(elem) };
+};
+
+/**
+ * Checks if the element has an accessible name
+ * @param elem element to be checked
+ * @param expected optional text to be contained in the name, regular expression or function to be checked against
+ * @param options optional text matching options, see TextMatchOptions
+ * @returns true if the element has an accessible name
+ */
+export const hasAccessibleName = (
+  elem?: any,
+  expected?: TextMatch,
+  options?: TextMatchOptions
+) =>
+  isHTMLOrSVGElement(elem) &&
+  hasAccessibleText(computeAccessibleName(elem), elem, expected, options);
+
+/**
+ * Explains if the element has an accessible name
+ * @param elem element to be checked
+ * @param expected optional text to be contained in the name, regular expression or function to be checked against
+ * @param options optional text matching options, see TextMatchOptions
+ * @returns result with the computed accessible name as actual value
+ */
+export const explainHasAccessibleName = (
+  elem?: any,
+  expected?: TextMatch,
+  options?: TextMatchOptions
+): Explanation<string | null, TextMatch | undefined> => {
+  const pass = hasAccessibleName(elem, expected, options);
+  if (isHTMLOrSVGElement(elem)) {
+    const actual = computeAccessibleName(elem);
+    return {
+      pass,
+      actual,
+      expected,
+      reason: describeAccessibleText(
+        'accessible name',
+        actual,
+        expected,
+        pass,
+        options
+      )
+    };
+  }
+  return { pass, actual: null, expected, reason: notAnElement(elem) };
+};
+
+/**
+ * Checks if an element has a certain attribute (optionally with an expected value)
+ * @param elem element to be checked
+ * @param name of the attribute
+ * @param expected optional text, regular expression or function to check the value against
+ * @param options optional text matching options, see TextMatchOptions; exact by default
+ * @returns true if the attribute is present and as expected
+ */
+export const hasAttribute = (
+  elem: any,
+  name: string,
+  expected?: TextMatch,
+  options?: TextMatchOptions
+) => {
+  if (isHTMLOrSVGElement(elem)) {
+    if (expected) {
+      const actual = elem.getAttribute(name);
+      return (
+        actual !== null && matchesText(actual, expected, elem, options, true)
+      );
+    }
+    return elem.hasAttribute(name);
+  }
+  return false;
+};
+
+/**
+ * Explains if an element has a certain attribute (optionally with an expected value)
+ * @param elem element to be checked
+ * @param name of the attribute
+ * @param expected optional text, regular expression or function to check the value against
+ * @param options optional text matching options, see TextMatchOptions; exact by default
+ * @returns result with the attribute value (or null if missing) as actual value
+ */
+export const explainHasAttribute = (
+  elem: any,
+  name: string,
+  expected?: TextMatch,
+  options?: TextMatchOptions
+): Explanation<string | null, TextMatch | undefined> => {
+  const pass = hasAttribute(elem, name, expected, options);
+  if (isHTMLOrSVGElement(elem)) {
+    const actual = elem.getAttribute(name);
+    return {
+      pass,
+      actual,
+      expected,
+      reason: !expected
+        ? `attribute \`${name}\` is ${pass ? '' : 'not '}present`
+        : actual === null
+        ? `attribute \`${name}\`: expected ${formatValue(expected)}, got null`
+        : describeTextMatch(
+            `attribute \`${name}\``,
+            actual,
+            expected,
+            pass,
+            options,
+            true
+          )
+    };
+  }
+  return { pass, actual: null, expected, reason: notAnElement(elem) };
+};
+
+/**
+ * Checks if an element has a certain class name
+ * @param elem element to be checked
+ * @param name string with a class name or regular expression to check the whole class name attribute against.
+ * @returns true if matched
+ */
+export const hasClass = (elem: any, name: string | RegExp) =>
+  isHTMLOrSVGElement(elem) &&
+  (name instanceof RegExp
+    ? name.test(elem.getAttribute('class') ?? '')
+    : elem.classList.contains(name));
+
+/**
+ * Explains if an element has a certain class name
+ * @param elem element to be checked
+ * @param name string with a class name or regular expression to check the whole class name attribute against.
+ * @returns result with the class attribute as actual value
+ */
+export const explainHasClass = (
+  elem: any,
+  name: string | RegExp
+): Explanation<string | null, string | RegExp> => {
+  if (isHTMLOrSVGElement(elem)) {
+    const pass = hasClass(elem, name);
+    const actual = elem.getAttribute('class') ?? '';
+    return {
+      pass,
+      actual,
+      expected: name,
+      reason: describeComparison('class', actual, name, pass, 'contain')
+    };
+  }
+  return {
+    pass: false,
+    actual: null,
+    expected: name,
+    reason: notAnElement(elem)
+  };
+};
+
+/**
+ * Tokens of aria-current, other values than these and false are treated as true
+ */
+export type CurrentToken = 'page' | 'step' | 'location' | 'date' | 'time';
+
+const currentTokens = ['page', 'step', 'location', 'date', 'time'];
+
+const getCurrent = (elem: any): CurrentToken | boolean => {
+  const value = isElement(elem) ? elem.getAttribute('aria-current') : null;
+  return value === null || value === '' || value === 'false'
+    ? false
+    : currentTokens.includes(value)
+    ? (value as CurrentToken)
+    : true;
+};
+
+/**
+ * Checks if the element is the current item within a set, e.g. the current page in a navigation
+ * @param elem element to be tested
+ * @param expected optional token like 'page' or 'step', defaults to true for any current item
+ * @returns true if aria-current matches the expected token or is set at all if none is given
+ */
+export const hasCurrent = (
+  elem?: any,
+  expected: CurrentToken | true = true
+): boolean => {
+  const actual = getCurrent(elem);
+  return expected === true ? actual !== false : actual === expected;
+};
+
+/**
+ * Explains if the element is the current item within a set
+ * @param elem element to be tested
+ * @param expected optional token like 'page' or 'step', defaults to true for any current item
+ * @returns result with the aria-current token (or true/false) as actual value
+ */
+export const explainHasCurrent = (
+  elem?: any,
+  expected: CurrentToken | true = true
+): Explanation<CurrentToken | boolean, CurrentToken | true> => {
+  const actual = getCurrent(elem);
+  const pass = hasCurrent(elem, expected);
+  return {
+    pass,
+    actual,
+    expected,
+    reason: isElement(elem)
+      ? describeComparison('aria-current', actual, expected, pass)
+      : notAnElement(elem)
+  };
+};
+
+const getReferencedText = (elem: Element, attribute: string) =>
+  (elem.getAttribute(attribute) ?? '').replace(
+    /(\s*)(\S+)/g,
+    (_: string, space: string, id: string) => {
+      const node = id && getElementByIdInRoot(elem, id);
+      return node && /\S+/.test(node.textContent || '')
+        ? space + node.textContent
+        : '';
+    }
+  );
+
+/**
+ * Checks if an element is described by other elements with a certain description
+ * @deprecated use hasAccessibleDescription
+ * @param elem element to be checked
+ * @param description text to be contained in the description, regular expression or function to check the description against.
+ * @param options optional text matching options, see TextMatchOptions
+ * @returns true if it matches
+ */
+export const hasDescription = (
+  elem: any,
+  description: TextMatch,
+  options?: TextMatchOptions
+) =>
+  isHTMLOrSVGElement(elem) &&
+  matchesText(
+    getReferencedText(elem, 'aria-describedby'),
+    description,
+    elem,
+    options,
+    false
+  );
+
+/**
+ * Explains if an element is described by other elements with a certain description
+ * @deprecated use explainHasAccessibleDescription
+ * @param elem element to be checked
+ * @param description text to be contained in the description, regular expression or function to check the description against.
+ * @param options optional text matching options, see TextMatchOptions
+ * @returns result with the text of the referenced elements as actual value
+ */
+export const explainHasDescription = (
+  elem: any,
+  description: TextMatch,
+  options?: TextMatchOptions
+): Explanation<string | null, TextMatch> => {
+  const pass = hasDescription(elem, description, options);
+  if (isHTMLOrSVGElement(elem)) {
+    const actual = getReferencedText(elem, 'aria-describedby');
+    return {
+      pass,
+      actual,
+      expected: description,
+      reason: describeTextMatch(
+        'description',
+        actual,
+        description,
+        pass,
+        options,
+        false
+      )
+    };
+  }
+  return {
+    pass,
+    actual: null,
+    expected: description,
+    reason: notAnElement(elem)
+  };
+};
+
+const getDisplayValues = (elem: any): string[] | null =>
+  isHTMLElementOf(elem, 'select')
+    ? [...elem.options]
+        .filter((option) => option.selected)
+        .map((option) => option.textContent ?? '')
+    : isHTMLElementOf(elem, 'textarea') ||
+      (isHTMLElementOf(elem, 'input') &&
+        !['radio', 'checkbox'].includes(elem.type))
+    ? [elem.value]
+    : null;
+
+/**
+ * Checks if an form element has a shown value
+ * @param elem element to be checked
+ * @param value text to be contained in the value, regular expression, function or for select/multiple an array thereof
+ * @param options optional text matching options, see TextMatchOptions
+ * @returns true if display value matches
+ */
+export const hasDisplayValue = (
+  elem: any,
+  value: TextMatch | TextMatch[],
+  options?: TextMatchOptions
+) => {
+  const actual = getDisplayValues(elem);
+  if (actual) {
+    const values = Array.isArray(value) ? value : [value];
+    return values.every(
+      (value, index) =>
+        index < actual.length &&
+        matchesText(actual[index], value, elem, options, false)
+    );
+  }
+  return false;
+};
+
+/**
+ * Explains if an form element has a shown value
+ * @param elem element to be checked
+ * @param value text to be contained in the value, regular expression, function or for select/multiple an array thereof
+ * @param options optional text matching options, see TextMatchOptions
+ * @returns result with the shown values as actual value
+ */
+export const explainHasDisplayValue = (
+  elem: any,
+  value: TextMatch | TextMatch[],
+  options?: TextMatchOptions
+): Explanation<string[] | null, TextMatch | TextMatch[]> => {
+  const actual = getDisplayValues(elem);
+  if (!actual) {
+    return {
+      pass: false,
+      actual,
+      expected: value,
+      reason: `expected a form field with a display value, got ${describeNode(
+        elem
+      )}`
+    };
+  }
+  const comparisons = (Array.isArray(value) ? value : [value]).map(
+    (expected, index) => {
+      const subject = Array.isArray(value)
+        ? `display value ${index + 1}`
+        : 'display value';
+      if (index >= actual.length) {
+        return {
+          pass: false,
+          description: `${subject}: expected a value, got none`
+        };
+      }
+      const pass = matchesText(actual[index], expected, elem, options, false);
+      return {
+        pass,
+        description: describeTextMatch(
+          subject,
+          actual[index],
+          expected,
+          pass,
+          options,
+          false
+        )
+      };
+    }
+  );
+  const mismatches = comparisons.filter(({ pass }) => !pass);
+  return {
+    pass: mismatches.length === 0,
+    actual,
+    expected: value,
+    reason: (mismatches.length ? mismatches : comparisons)
+      .map(({ description }) => description)
+      .join('; ')
+  };
+};
+
+/**
+ * Checks if descendant is inside ancestor
+ * @param ancestor element to be checked
+ * @param descendant element to be checked
+ * @returns true if descendant is a descendant of ancestor
+ */
+export const hasElement = (ancestor: any, descendant: any): boolean =>
+  isHTMLOrSVGElement(ancestor) &&
+  isHTMLOrSVGElement(descendant) &&
+  containsComposed(ancestor, descendant);
+
+/**
+ * Explains if descendant is inside ancestor
+ * @param ancestor element to be checked
+ * @param descendant element to be checked
+ * @returns result with the containment as actual value
+ */
+export const explainHasElement = (
+  ancestor: any,
+  descendant: any
+): Explanation<boolean> => {
+  const pass = hasElement(ancestor, descendant);
+  return {
+    pass,
+    actual: pass,
+    expected: true,
+    reason: !isHTMLOrSVGElement(ancestor)
+      ? notAnElement(ancestor)
+      : !isHTMLOrSVGElement(descendant)
+      ? notAnElement(descendant)
+      : `${describeNode(ancestor)} does ${
+          pass ? '' : 'not '
+        }contain ${describeNode(descendant)}`
+  };
+};
+
+/**
+ * Sources of error text that hasErrorMessage can consider:
+ * - `errormessage`: nodes referenced by aria-errormessage
+ * - `describedby`: nodes referenced by aria-describedby
+ * - `validationMessage`: the native validation message of the form control
+ * - `live`: live regions (aria-live, role alert, status or log) next to the element
+ */
+export type ErrorMessageSource =
+  | 'errormessage'
+  | 'describedby'
+  | 'validationMessage'
+  | 'live';
+
+/**
+ * Options for hasErrorMessage, besides the text matching options
+ * @property sources sources of error text to consider in order, defaults to `['errormessage']`
+ */
+export type ErrorMessageOptions = TextMatchOptions & {
+  sources?: ErrorMessageSource[];
+};
+
+const liveRegions =
+  '[aria-live]:not([aria-live="off"]), [role="alert"], [role="status"], [role="log"]';
+
+const getErrorNodes = (elem: Element, source: ErrorMessageSource) =>
+  source === 'live'
+    ? Array.from(
+        elem.parentElement?.querySelectorAll(liveRegions) ?? []
+      ).filter((region) => !region.contains(elem))
+    : (elem.getAttribute(`aria-${source}`) ?? '')
+        .split(/\s+/)
+        .map((id) => id && getElementByIdInRoot(elem, id))
+        .filter((node): node is HTMLElement => !!node);
+
+// error messages that are not visible to the user should not count
+const getErrorText = (elem: Element, source: ErrorMessageSource) =>
+  source === 'validationMessage'
+    ? (elem as HTMLInputElement).validationMessage ?? ''
+    : getErrorNodes(elem, source)
+        .filter((node) => isVisible(node))
+        .map((node) => node.textContent ?? '')
+        .filter((text) => /\S/.test(text))
+        .join(' ');
+
+const getErrorMessages = (elem: Element, options?: ErrorMessageOptions) =>
+  (options?.sources ?? ['errormessage']).map((source) => ({
+    source,
+    text: getErrorText(elem, source)
+  }));
+
+const matchesErrorMessage = (
+  text: string,
+  message: TextMatch,
+  elem: Element,
+  options?: ErrorMessageOptions
+) => /\S/.test(text) && matchesText(text, message, elem, options, false);
+
+/**
+ * Checks if a form element is invalid and has a visible error message
+ * @param elem element to be checked
+ * @param message text to be contained in the message, regular expression or function to check against the message
+ * @param options optional sources of the error message and text matching options, see ErrorMessageOptions
+ * @returns true if field is invalid and the error message of any of the sources matches the message attribute
+ */
+export const hasErrorMessage = (
+  elem: any,
+  message: TextMatch,
+  options?: ErrorMessageOptions
+) =>
+  isInvalid(elem) &&
+  getErrorMessages(elem, options).some(({ text }) =>
+    matchesErrorMessage(text, message, elem, options)
+  );
+
+/**
+ * Explains if a form element is invalid and has a visible error message
+ * @param elem element to be checked
+ * @param message text to be contained in the message, regular expression or function to check against the message
+ * @param options optional sources of the error message and text matching options, see ErrorMessageOptions
+ * @returns result with the error message text as actual value and the matching source in the reason
+ */
+export const explainHasErrorMessage = (
+  elem: any,
+  message: TextMatch,
+  options?: ErrorMessageOptions
+): Explanation<string | null, TextMatch> => {
+  if (!isInvalid(elem)) {
+    return {
+      pass: false,
+      actual: null,
+      expected: message,
+      reason: describeValidity(elem)
+    };
+  }
+  const messages = getErrorMessages(elem, options);
+  const match = messages.find(({ text }) =>
+    matchesErrorMessage(text, message, elem, options)
+  );
+  if (match) {
+    return {
+      pass: true,
+      actual: match.text,
+      expected: message,
+      reason: describeTextMatch(
+        `error message from ${match.source}`,
+        match.text,
+        message,
+        true,
+        options,
+        false
+      )
+    };
+  }
+  const actual = messages
+    .map(({ text }) => text)
+    .filter((text) => /\S/.test(text))
+    .join(' ');
+  return {
+    pass: false,
+    actual,
+    expected: message,
+    reason: describeTextMatch(
+      `error message from ${messages.map(({ source }) => source).join(', ')}`,
+      actual,
+      message,
+      false,
+      options,
+      false
+    )
+  };
+};
+
+// the document only knows the host of a focused element inside a shadow root
+const getActiveElement = (elem: any) => {
+  const root = isNode(elem) ? elem.getRootNode() : null;
+  return (isShadowRoot(root) ? root : elem?.ownerDocument ?? document)
+    .activeElement;
+};
+
+/**
+ * Checks if the element has focus
+ * @param elem element to be checked
+ * @returns true if element is focussed
+ */
+export const hasFocus = (elem: any) =>
+  isHTMLOrSVGElement(elem) && getActiveElement(elem) === elem;
+
+/**
+ * Explains if the element has focus
+ * @param elem element to be checked
+ * @returns result with the currently focussed element as actual value
+ */
+export const explainHasFocus = (elem: any): Explanation<string> => {
+  const pass = hasFocus(elem);
+  const actual = describeNode(getActiveElement(elem));
+  return {
+    pass,
+    actual,
+    expected: describeNode(elem),
+    reason: pass
+      ? `${describeNode(elem)} has focus`
+      : `expected ${describeNode(elem)} to have focus, got ${actual}`
+  };
+};
+
+/**
+ * Options for getFormValues
+ * @property types 'typed' (default) for booleans, numbers, Dates and arrays depending on the field, 'native' for the
+ * strings (or arrays of strings for repeated names) that would be submitted like FormData
+ */
+export type FormValuesOptions = {
+  types?: 'native' | 'typed';
+};
+
+type FormField = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+// aria-disabled does not keep a field from being submitted, so only the native rules apply
+const getSubmittableFields = (form: HTMLFormElement): FormField[] =>
+  Array.from(form.elements).filter(
+    (field): field is FormField =>
+      isHTMLElementOf(field, 'input', 'select', 'textarea') &&
+      field.name !== '' &&
+      !['button', 'image', 'reset', 'submit'].includes(field.type) &&
+      !field.hasAttribute('disabled') &&
+      getDisablingFieldset(field) === null
+  );
+
+const getNativeFieldValues = (field: FormField): string[] =>
+  isHTMLElementOf(field, 'select')
+    ? Array.from(field.selectedOptions).map((option) => option.value)
+    : isHTMLElementOf(field, 'input') && field.type === 'file'
+    ? Array.from(field.files ?? []).map((file) => file.name)
+    : isHTMLElementOf(field, 'input') &&
+      ['checkbox', 'radio'].includes(field.type)
+    ? field.checked
+      ? [field.value]
+      : []
+    : [field.value];
+
+const getTypedFieldValue = (field: FormField): unknown => {
+  if (isHTMLElementOf(field, 'select')) {
+    return field.multiple ? getNativeFieldValues(field) : field.value;
+  }
+  if (isHTMLElementOf(field, 'textarea')) {
+    return field.value;
+  }
+  switch (field.type) {
+    case 'checkbox':
+      return field.checked;
+    case 'number':
+    case 'range':
+      return field.value === '' ? NaN : Number(field.value);
+    case 'date':
+    case 'datetime-local':
+    case 'month':
+      return field.value === ''
+        ? null
+        : new Date(field.type === 'month' ? `${field.value}-01` : field.value);
+    case 'file':
+      return getNativeFieldValues(field);
+    default:
+      return field.value;
+  }
+};
+
+/**
+ * Gets the values of all named, enabled fields owned by the form (including those associated by a form="id" attribute
+ * outside of it), e.g. `{ email: 'a@b.c', newsletter: true, birthday: new Date('2000-01-01') }`
+ * @param form form element to get the values from
+ * @param options optional types: 'typed' (default) returns booleans for single checkboxes, the checked value for radio
+ * buttons, arrays for repeated checkboxes, multiple selects and file inputs (with the file names), numbers for number and
+ * range inputs and Dates for date, datetime-local and month inputs; 'native' returns the strings that would be submitted
+ * @returns object with the values by field name
+ */
+export const getFormValues = (
+  form: HTMLFormElement,
+  { types = 'typed' }: FormValuesOptions = {}
+): Record<string, any> => {
+  const fields = getSubmittableFields(form);
+  return fields.reduce<Record<string, any>>((values, field) => {
+    if (Object.prototype.hasOwnProperty.call(values, field.name)) {
+      return values;
+    }
+    const named = fields.filter(({ name }) => name === field.name);
+    if (types === 'native') {
+      const submitted = named.flatMap(getNativeFieldValues);
+      values[field.name] = submitted.length === 1 ? submitted[0] : submitted;
+    } else if (field.type === 'radio') {
+      values[field.name] = (
+        named.find((field) => (field as HTMLInputElement).checked) as
+          | HTMLInputElement
+          | undefined
+      )?.value;
+    } else if (named.length > 1) {
+      values[field.name] = named.flatMap(getNativeFieldValues);
+    } else {
+      values[field.name] = getTypedFieldValue(field);
+    }
+    return values;
+  }, {});
+};
+
+const isDeepEqual = (expected: unknown, actual: unknown): boolean =>
+  expected instanceof Date || actual instanceof Date
+    ? expected instanceof Date &&
+      actual instanceof Date &&
+      expected.getTime() === actual.getTime()
+    : Array.isArray(expected) || Array.isArray(actual)
+    ? Array.isArray(expected) &&
+      Array.isArray(actual) &&
+      expected.length === actual.length &&
+      expected.every((value, index) => isDeepEqual(value, actual[index]))
+    : expected === actual || (Number.isNaN(expected) && Number.isNaN(actual));
+
+/**
+ * Checks if a form has certain values
+ * @param elem form element to be checked
+ * @param expected object with the values as returned by getFormValues (multiple values for same-name checkboxes or multiselect fields go in an array, single checkboxes yield booleans, number inputs number, date inputs Dates); not all fields need to be expected
+ * @param options optional types, see getFormValues
+ * @returns true if form values deeply equal the expected values
+ */
+export const hasFormValues = (
+  elem: any,
+  expected: Record<string, any>,
+  options?: FormValuesOptions
+) => {
+  if (isHTMLElementOf(elem, 'form')) {
+    const values = getFormValues(elem, options);
+    return Object.keys(expected).every((name) =>
+      isDeepEqual(expected[name], values[name])
+    );
+  }
+  return false;
+};
+
+/**
+ * Explains if a form has certain values
+ * @param elem form element to be checked
+ * @param expected object with the values, see hasFormValues
+ * @param options optional types, see getFormValues
+ * @returns result with the values of the expected fields as actual value and the mismatching fields in the reason
+ */
+export const explainHasFormValues = (
+  elem: any,
+  expected: Record<string, any>,
+  options?: FormValuesOptions
+): Explanation<Record<string, any> | null, Record<string, any>> => {
+  if (isHTMLElementOf(elem, 'form')) {
+    const values = getFormValues(elem, options);
+    const actual = Object.keys(expected).reduce<Record<string, any>>(
+      (actual, name) => {
+        actual[name] = values[name];
+        return actual;
+      },
+      {}
+    );
+    const mismatches = Object.keys(expected)
+      .filter((name) => !isDeepEqual(expected[name], values[name]))
+      .map((name) =>
+        describeComparison(
+          `field \`${name}\``,
+          values[name],
+          expected[name],
+          false
+        )
+      );
+    return {
+      pass: mismatches.length === 0,
+      actual,
+      expected,
+      reason: mismatches.length
+        ? mismatches.join('; ')
+        : `all ${Object.keys(expected).length} fields match`
+    };
+  }
+  return {
+    pass: false,
+    actual: null,
+    expected,
+    reason: `expected a form element, got ${describeNode(elem)}`
+  };
+};
+
+const formatDateValue = (type: string, date: Date) =>
+  type === 'datetime-local'
+    ? new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+        .toISOString()
+        .slice(0, 16)
+    : date.toISOString().slice(0, type === 'month' ? 7 : 10);
+
+const dispatchUserEvents = (field: Element) => {
+  // events have to be created in the realm of the field's document
+  const { Event } = getWindow(field);
+  field.dispatchEvent(new Event('input', { bubbles: true }));
+  field.dispatchEvent(new Event('change', { bubbles: true }));
+};
+
+const throwUnknownOptions = (name: string, unknown: string[]) => {
+  if (unknown.length) {
+    throw new Error(
+      `fillForm: field \`${name}\` has no option ${unknown
+        .map(formatValue)
+        .join(', ')}`
+    );
+  }
+};
+
+const fillField = (field: FormField, value: any) => {
+  if (isHTMLElementOf(field, 'select')) {
+    if (Array.isArray(value) && !field.multiple) {
+      throw new Error(
+        `fillForm: field \`${field.name}\` is not a multiple select and cannot take several values`
+      );
+    }
+    const options = Array.from(field.options);
+    const selected = (Array.isArray(value) ? value : [value]).map(String);
+    throwUnknownOptions(
+      field.name,
+      selected.filter(
+        (selectedValue) =>
+          !options.some((option) => option.value === selectedValue)
+      )
+    );
+    options.forEach((option) => {
+      option.selected = selected.includes(option.value);
+    });
+  } else if (field.type === 'file') {
+    // browsers only allow the user to pick files
+    throw new Error(
+      `fillForm: field \`${field.name}\` is a file input and cannot be filled`
+    );
+  } else if (value instanceof Date) {
+    field.value = formatDateValue(field.type, value);
+  } else {
+    field.value = String(value ?? '');
+  }
+  dispatchUserEvents(field);
+};
+
+const fillCheckables = (
+  name: string,
+  fields: HTMLInputElement[],
+  value: any
+) => {
+  const isSingleCheckbox = fields.length === 1 && fields[0].type === 'checkbox';
+  const checkedValues = (Array.isArray(value) ? value : [value]).map(String);
+  if (!isSingleCheckbox) {
+    throwUnknownOptions(
+      name,
+      checkedValues.filter(
+        (checkedValue) => !fields.some((field) => field.value === checkedValue)
+      )
+    );
+  }
+  fields.forEach((field) => {
+    const checked = isSingleCheckbox
+      ? Boolean(value)
+      : checkedValues.includes(field.value);
+    // unchecking radio buttons is left to the browser, which only fires events for the newly checked one
+    if (field.checked !== checked && (checked || field.type !== 'radio')) {
+      // a click toggles the field and fires click, input and change like a user would, but the latter two only
+      // if the field is in a document
+      field.click();
+      if (!field.isConnected && field.checked === checked) {
+        dispatchUserEvents(field);
+      }
+    }
+  });
+};
+
 /**
- * Recursively checks if element or a parent is disabled
- * @param elem {HTMLElement | ParentNode} element to be tested
- * @returns {boolean} true if disabled, false if not
+ * Fills the form like a user would: sets the values of the fields and dispatches bubbling input and change events,
+ * so event handlers like Solid's onInput are triggered; checkboxes and radio buttons are clicked instead
+ * @param form form element to be filled
+ * @param values object with the values by field name in the same shapes as returned by getFormValues (arrays for
+ * checkbox groups and multiple selects, booleans for single checkboxes, numbers for number inputs, Dates for date inputs)
+ * @throws {Error} if there is no field with a name, all fields of a name are disabled, an option does not exist, several values are given for a single select or the field is a file input
  */
-export const isDisabled = (elem: HTMLElement | ParentNode | null): boolean =>
-  elem instanceof HTMLElement &&
-  (elem.hasAttribute('disabled') ||
-    (elem.getAttribute('aria-disabled') ?? 'false') !== 'false' ||
-    (elem.parentNode instanceof HTMLElement && isDisabled(elem.parentNode)));
+export const fillForm = (form: HTMLFormElement, values: Record<string, any>) =>
+  Object.entries(values).forEach(([name, value]) => {
+    const named = Array.from(form.elements).filter(
+      (field): field is FormField =>
+        isHTMLElementOf(field, 'input', 'select', 'textarea') &&
+        field.name === name
+    );
+    if (named.length === 0) {
+      throw new Error(
+        `fillForm: no field \`${name}\` in ${describeNode(form)}`
+      );
+    }
+    const fields = named.filter((field) => !isDisabled(field));
+    if (fields.length === 0) {
+      throw new Error(`fillForm: field \`${name}\` is disabled`);
+    }
+    if (
+      fields.every(
+        (field) =>
+          isHTMLElementOf(field, 'input') &&
+          ['checkbox', 'radio'].includes(field.type)
+      )
+    ) {
+      fillCheckables(name, fields as HTMLInputElement[], value);
+    } else {
+      fields.forEach((field) => fillField(field, value));
+    }
+  });
 
 /**
- * Checks if the argument is a DOM element without other DOM elements inside it
- * @param elem element to be tested
- * @returns true if empty, false if not empty or not a dom element
+ * Result of submitForm
+ * @property submitted true if the form passed constraint validation and the submit event was not canceled
+ * @property defaultPrevented true if a submit event handler called preventDefault()
+ * @property invalid fields blocking the submission with the reason, empty if the form is valid or not validated
+ * @property entries the name/value pairs that FormData would send, including the submitter's name and value
  */
-export const isEmptyDomElement = (elem?: any): boolean =>
-  elem instanceof HTMLElement &&
-  !Array.from(elem.childNodes).some((node) => node.nodeType !== 8);
+export type SubmitResult = {
+  submitted: boolean;
+  defaultPrevented: boolean;
+  invalid: { field: Element; reason: string }[];
+  entries: [string, string][];
+};
 
 /**
- * Checks if the argument is a completely empty DOM element
- * @deprecated use isEmptyDomElement
- * @param elem element to be test
- * @returns true if empty, false if not or not a DOM element
+ * Options for submitForm
+ * @property submitter the submit button that submits the form, defaults to none like form.requestSubmit()
  */
-export const isEmpty = (elem?: any): boolean =>
-  elem instanceof HTMLElement && elem.innerHTML === '';
+export type SubmitFormOptions = {
+  submitter?: HTMLButtonElement | HTMLInputElement;
+};
 
-/**
- * Checks if the argument is an element within the current document
- * @param elem element to be tested
- * @param doc optional to select a different document to test against, e.g. in an iframe
- * @returns true if in document, false if not or not a DOM element
- */
-export const isInDocument = (elem?: any, doc = document): elem is HTMLElement =>
-  elem instanceof HTMLElement &&
-  (elem.parentNode === doc || isInDocument(elem.parentNode, doc));
+const isSubmitButton = (elem: Element) =>
+  isHTMLElementOf(elem, 'button', 'input') &&
+  ['submit', 'image'].includes(elem.type);
 
 /**
- * Checks if the argument is an element within the current document
- * @deprecated use isInDocument
- * @param elem element to be tested
- * @param doc optional to select a different document to test against, e.g. in an iframe
- * @returns true if in document, false if not or not a DOM element
+ * Submits the form like a user would: runs constraint validation (unless novalidate or formnovalidate are set) and
+ * fires a cancelable submit event with the submitter if the form is valid; nothing is sent over the network
+ * @param form form element to be submitted
+ * @param options optional submit button as submitter
+ * @returns result with the invalid fields blocking the submission and the entries that would be submitted
+ * @throws {Error} if the submitter is not an enabled submit button of the form
  */
-export const isInDOM = isInDocument;
+export const submitForm = (
+  form: HTMLFormElement,
+  { submitter }: SubmitFormOptions = {}
+): SubmitResult => {
+  if (
+    submitter &&
+    (!isSubmitButton(submitter) ||
+      submitter.form !== form ||
+      isDisabled(submitter))
+  ) {
+    throw new Error(
+      `submitForm: ${describeNode(
+        submitter
+      )} is not an enabled submit button of ${describeNode(form)}`
+    );
+  }
+  const fields = getSubmittableFields(form);
+  const { Node } = getWindow(form);
+  // image buttons are not listed in form.elements, but submit their click coordinates
+  const elements =
+    submitter?.type === 'image'
+      ? [...Array.from(form.elements), submitter].sort((a, b) =>
+          a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING
+            ? -1
+            : 1
+        )
+      : Array.from(form.elements);
+  const entries = elements.flatMap((elem): [string, string][] =>
+    elem === submitter && submitter.type === 'image'
+      ? [
+          [submitter.name ? `${submitter.name}.x` : 'x', '0'],
+          [submitter.name ? `${submitter.name}.y` : 'y', '0']
+        ]
+      : elem === submitter && submitter.name
+      ? [[submitter.name, submitter.value]]
+      : fields.includes(elem as FormField)
+      ? getNativeFieldValues(elem as FormField).map((value) => [
+          (elem as FormField).name,
+          value
+        ])
+      : []
+  );
+  const invalid =
+    form.noValidate || submitter?.formNoValidate
+      ? []
+      : Array.from(form.elements)
+          .filter(
+            (elem) =>
+              (elem as HTMLInputElement).willValidate &&
+              !(elem as HTMLInputElement).checkValidity()
+          )
+          .map((field) => ({ field, reason: describeValidity(field) }));
+  if (invalid.length) {
+    return { submitted: false, defaultPrevented: false, invalid, entries };
+  }
+  // events have to be created in the realm of the form's document, jsdom lacks SubmitEvent
+  const { Event, SubmitEvent } = getWindow(form);
+  const init = {
+    bubbles: true,
+    cancelable: true,
+    submitter: submitter ?? null
+  };
+  const event =
+    typeof SubmitEvent === 'function'
+      ? new SubmitEvent('submit', init)
+      : Object.assign(new Event('submit', init), {
+          submitter: init.submitter
+        });
+  const notCanceled = form.dispatchEvent(event);
+  return {
+    submitted: notCanceled,
+    defaultPrevented: !notCanceled,
+    invalid,
+    entries
+  };
+};
 
 /**
- * Checks if the argument is an invalid form element
- * @param elem element to be tested
- * @returns true if invalid form element, false if not
+ * Value of a range widget like a slider, progressbar or meter
+ * @property now the current value
+ * @property min the minimum value
+ * @property max the maximum value
+ * @property text the human-readable text alternative of the value
  */
-export const isInvalid = (elem?: any): boolean =>
-  elem instanceof HTMLElement &&
-  (elem.getAttribute('aria-invalid') === 'true' ||
-    !('checkValidity' in elem) ||
-    !(elem as HTMLFormElement).checkValidity());
+export type RangeValue = {
+  now?: number;
+  min?: number;
+  max?: number;
+  text?: string;
+};
+
+const rangeRoles = [
+  'meter',
+  'progressbar',
+  'scrollbar',
+  'separator',
+  'slider',
+  'spinbutton'
+];
+
+const getRangeValue = (elem: any): RangeValue | null => {
+  const role = getRole(elem) ?? '';
+  // only focusable separators are widgets, static ones like <hr> have no value
+  if (
+    !rangeRoles.includes(role) ||
+    (role === 'separator' && !isFocusable(elem))
+  ) {
+    return null;
+  }
+  const getNumber = (attribute: string) =>
+    elem.hasAttribute(attribute)
+      ? Number(elem.getAttribute(attribute))
+      : undefined;
+  const text = elem.getAttribute('aria-valuetext') ?? undefined;
+  // native attributes take precedence over ARIA, as authors should not use both
+  if (isHTMLElementOf(elem, 'input') && elem.type === 'range') {
+    return {
+      now: Number(elem.value),
+      min: Number(elem.min || '0'),
+      max: Number(elem.max || '100'),
+      text
+    };
+  }
+  if (isHTMLElementOf(elem, 'progress')) {
+    return {
+      now: elem.hasAttribute('value') ? elem.value : undefined,
+      min: 0,
+      max: elem.max,
+      text
+    };
+  }
+  if (elem.nodeName === 'METER') {
+    const { value, min, max } = elem as HTMLMeterElement;
+    return { now: value, min, max, text };
+  }
+  return {
+    now: getNumber('aria-valuenow'),
+    min: getNumber('aria-valuemin'),
+    max: getNumber('aria-valuemax'),
+    text
+  };
+};
 
 /**
- * Checks if the argument is a valid form element
+ * Checks if the range widget (slider, progressbar, meter, scrollbar, spinbutton or focusable separator) has a certain value,
+ * from aria-valuenow/-min/-max/-text or the native input type=range, progress and meter elements
  * @param elem element to be tested
- * @returns true if invalid form element, false if not
+ * @param expected object with the expected now, min, max and/or text, omitted properties are not checked
+ * @returns true if all expected properties match
  */
-export const isValid = (elem?: any): boolean =>
-  elem instanceof HTMLElement &&
-  (((elem.getAttribute('aria-invalid') || 'false') === 'false' &&
-    !('checkValidity' in elem)) ||
-    (elem as HTMLFormElement).checkValidity());
+export const hasRangeValue = (elem: any, expected: RangeValue): boolean => {
+  const actual = getRangeValue(elem);
+  return (
+    actual !== null &&
+    (Object.keys(expected) as (keyof RangeValue)[]).every(
+      (key) => actual[key] === expected[key]
+    )
+  );
+};
 
 /**
- * Checks if an argument is an element that can be and is required
+ * Explains if the range widget has a certain value
  * @param elem element to be tested
- * @returns true if required, false if not
+ * @param expected object with the expected now, min, max and/or text, omitted properties are not checked
+ * @returns result with the range value of the element as actual value
  */
-export const isRequired = (elem?: any) =>
-  (elem instanceof HTMLElement &&
-    ((elem instanceof HTMLInputElement &&
-      !['color', 'hidden', 'range', 'submit', 'image', 'reset'].includes(
-        elem.getAttribute('type') ?? 'text'
-      )) ||
-      elem instanceof HTMLTextAreaElement ||
-      elem instanceof HTMLSelectElement) &&
-    elem.hasAttribute('required')) ||
-  (['combobox', 'gridcell', 'radiogroup', 'spinbutton', 'tree'].includes(
-    elem?.getAttribute('role') ?? ''
-  ) &&
-    elem?.getAttribute('aria-required') === 'true');
+export const explainHasRangeValue = (
+  elem: any,
+  expected: RangeValue
+): Explanation<RangeValue | null, RangeValue> => {
+  const actual = getRangeValue(elem);
+  const mismatch = (Object.keys(expected) as (keyof RangeValue)[]).find(
+    (key) => actual?.[key] !== expected[key]
+  );
+  return {
+    pass: actual !== null && mismatch === undefined,
+    actual,
+    expected,
+    reason:
+      actual === null
+        ? describeUnsupportedState(elem, 'aria-valuenow')
+        : mismatch
+        ? describeComparison(
+            `range value ${mismatch}`,
+            actual[mismatch],
+            expected[mismatch],
+            false
+          )
+        : `${describeNode(elem)} has the expected range value`
+  };
+};
 
-/**
- * Checks if element should be visible - warning: there are some uncovered edge cases
- * @param elem element to be checked
- * @returns true if the element should be visible, false if it shouldn't
- */
-export const isVisible = (elem?: any): boolean => {
-  if (!isInDocument(elem)) {
-    return false;
-  }
-  if ((elem.getAttribute('hidden') ?? 'false') !== 'false') {
-    return false;
-  }
-  const { display, visibility, opacity, height, width } =
-    window.getComputedStyle(elem);
-  return (
-    display !== 'none' &&
-    visibility !== 'hidden' &&
-    visibility !== 'collapse' &&
-    Number(opacity || '1') !== 0 &&
-    (['inline', 'static'].includes(display) ||
-      Number(width || '1') * Number(height || '1') > 0) &&
-    (elem.parentNode === document.documentElement || isVisible(elem.parentNode))
+const sides = ['top', 'right', 'bottom', 'left'];
+
+// jsdom neither enumerates nor computes the longhands of shorthand declarations
+const shorthandProperties: Record<string, string[]> = {
+  margin: sides.map((side) => `margin-${side}`),
+  padding: sides.map((side) => `padding-${side}`),
+  inset: sides,
+  'border-width': sides.map((side) => `border-${side}-width`),
+  'border-style': sides.map((side) => `border-${side}-style`),
+  'border-color': sides.map((side) => `border-${side}-color`),
+  ...Object.fromEntries(
+    sides.map((side) => [
+      `border-${side}`,
+      ['width', 'style', 'color'].map((part) => `border-${side}-${part}`)
+    ])
+  ),
+  border: ['width', 'style', 'color'].flatMap((part) =>
+    sides.map((side) => `border-${side}-${part}`)
+  ),
+  'border-radius': ['top-left', 'top-right', 'bottom-right', 'bottom-left'].map(
+    (corner) => `border-${corner}-radius`
+  ),
+  gap: ['row-gap', 'column-gap'],
+  overflow: ['overflow-x', 'overflow-y'],
+  flex: ['flex-grow', 'flex-shrink', 'flex-basis'],
+  background: ['background-color', 'background-image']
+};
+
+const lengthUnits = /^(px|em|rem|ex|ch|%|vw|vh|vmin|vmax|cm|mm|in|pt|pc|q)$/i;
+
+// not every longhand parser of jsdom converts hex colors like the browser does
+const hexToRgb = (hex: string) => {
+  const digits =
+    hex.length <= 5 ? hex.replace(/[0-9a-f]/gi, (digit) => digit + digit) : hex;
+  const [red, green, blue, alpha] = (digits.match(/[0-9a-f]{2}/gi) ?? []).map(
+    (pair) => parseInt(pair, 16)
   );
+  return alpha === undefined
+    ? `rgb(${red}, ${green}, ${blue})`
+    : `rgba(${red}, ${green}, ${blue}, ${Number((alpha / 255).toFixed(3))})`;
 };
 
-/**
- * Checks if the element has an accessible description
- * @param elem element to be checked
- * @param expected optional string or regular expression to be checked against
- * @returns true if the element has an accessible description
- */
-export const hasAccessibleDescription = (
-  elem?: any,
-  expected?: string | RegExp
-) => {
-  if (elem instanceof HTMLElement || elem instanceof SVGElement) {
-    const actual = computeAccessibleDescription(elem);
-    return expected instanceof RegExp
-      ? expected.test(actual)
-      : expected
-      ? actual.indexOf(expected) !== -1
-      : actual.length > 3;
+const toPropertyName = (name: string) =>
+  name.startsWith('--')
+    ? name
+    : name.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+
+// parses the value like the browser would and compares numbers regardless of notation and zero units
+const normalizeStyle = (
+  doc: Document,
+  property: string,
+  value: string
+): string => {
+  if (property.startsWith('--')) {
+    return value.trim();
   }
-  return false;
+  const declaration = doc.createElement('div').style;
+  declaration.setProperty(property, value);
+  return (declaration.getPropertyValue(property) || value.trim())
+    .replace(/#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})\b/gi, hexToRgb)
+    .replace(
+      /(^|[\s,(/])(-?(?:\d+\.?\d*|\.\d+))([a-z%]*)(?=$|[\s,)/])/gi,
+      (_, prefix: string, number: string, unit: string) =>
+        `${prefix}${Number(number)}${
+          Number(number) === 0 && lengthUnits.test(unit) ? '' : unit
+        }`
+    );
+};
+
+type StyleComparison = {
+  property: string;
+  actual: string;
+  expected: string | RegExp;
+  pass: boolean;
+};
+
+const compareStyles = (
+  elem: Element,
+  pseudo: string | undefined,
+  styles: Record<string, string | RegExp>
+): StyleComparison[] => {
+  const doc = elem.ownerDocument;
+  const computed = getWindow(elem).getComputedStyle(elem, pseudo);
+  const getActual = (property: string) =>
+    computed.getPropertyValue(property).trim();
+  return Object.entries(styles).flatMap<StyleComparison>(([name, expected]) => {
+    const property = toPropertyName(name);
+    if (expected instanceof RegExp) {
+      const actual = getActual(property);
+      return [{ property, actual, expected, pass: expected.test(actual) }];
+    }
+    const declaration = doc.createElement('div').style;
+    declaration.setProperty(property, expected);
+    const longhands = [
+      ...Array.from(declaration),
+      ...(shorthandProperties[property] ?? [])
+    ].filter(
+      (longhand, index, longhands) =>
+        longhand !== property &&
+        longhands.indexOf(longhand) === index &&
+        declaration.getPropertyValue(longhand)
+    );
+    return (longhands.length ? longhands : [property]).map((longhand) => {
+      const actual = getActual(longhand);
+      const value = declaration.getPropertyValue(longhand) || expected.trim();
+      return {
+        property: longhand,
+        actual,
+        expected: value,
+        pass:
+          normalizeStyle(doc, longhand, actual) ===
+          normalizeStyle(doc, longhand, value)
+      };
+    });
+  });
 };
 
+const parseStyles = (
+  expectedStyles: string | Record<string, string | RegExp>
+): Record<string, string | RegExp> =>
+  expectedStyles instanceof Object
+    ? expectedStyles
+    : expectedStyles
+        .split(/\s*;\s*/g)
+        .reduce<Record<string, string>>((styles, style) => {
+          const [key, value] = style.split(/\s*:\s*/);
+          if (key && value) {
+            styles[key] = value;
+          }
+          return styles;
+        }, {});
+
 /**
- * Checks if the element has an accessible name
- * @param elem element to be checked
- * @param expected optional string or regular expression to be checked against
- * @returns true if the element has an accessible name
+ * Checks if a (pseudo) element has the expected computed styles; values are parsed like the browser would,
+ * so colors, zero lengths and shorthands are compared by their computed longhands
+ * @param elem element to be checked or [element, '::before' | '::after'] for pseudo element
+ * @param expectedStyles styles object with camelCase, kebab-case or custom property keys or a string
+ * @returns true if expected styles are set on the element
  */
-export const hasAccessibleName = (elem?: any, expected?: string | RegExp) => {
-  if (elem instanceof HTMLElement || elem instanceof SVGElement) {
-    const actual = computeAccessibleName(elem);
-    return expected instanceof RegExp
-      ? expected.test(actual)
-      : expected
-      ? actual.indexOf(expected) !== -1
-      : actual.length > 3;
-  }
-  return false;
+export const hasStyle = (
+  elem: any,
+  expectedStyles: string | Record<string, string | RegExp>
+) => {
+  const [node, pseudo] = Array.isArray(elem) ? elem : [elem, undefined];
+  return (
+    isHTMLOrSVGElement(node) &&
+    compareStyles(node, pseudo, parseStyles(expectedStyles)).every(
+      ({ pass }) => pass
+    )
+  );
 };
 
 /**
- * Checks if an element has a certain attribute (optionally with an expected value)
- * @param elem element to be checked
- * @param name of the attribute
- * @param expected optional string or regular expression to check the value against
- * @returns true if the attribute is present and as expected
+ * Explains if a (pseudo) element has the expected styles
+ * @param elem element to be checked or [element, '::before' | '::after'] for pseudo element
+ * @param expectedStyles styles object or string
+ * @returns result with the computed values of the expected styles as actual value and the mismatching styles in the reason
  */
-export const hasAttribute = (
+export const explainHasStyle = (
   elem: any,
-  name: string,
-  expected?: string | RegExp
-) => {
-  if (elem instanceof HTMLElement || elem instanceof SVGElement) {
-    if (expected) {
-      const actual = elem.getAttribute(name);
-      return (
-        actual !== null &&
-        (expected instanceof RegExp
-          ? expected.test(actual)
-          : actual === expected)
+  expectedStyles: string | Record<string, string | RegExp>
+): Explanation<
+  Record<string, string> | null,
+  Record<string, string | RegExp>
+> => {
+  const [node, pseudo] = Array.isArray(elem) ? elem : [elem, undefined];
+  const styles = parseStyles(expectedStyles);
+  if (isHTMLOrSVGElement(node)) {
+    const comparisons = compareStyles(node, pseudo, styles);
+    const actual = comparisons.reduce<Record<string, string>>(
+      (actual, { property, actual: value }) => {
+        actual[property] = value;
+        return actual;
+      },
+      {}
+    );
+    const mismatches = comparisons
+      .filter(({ pass }) => !pass)
+      .map(({ property, actual, expected }) =>
+        describeComparison(`style \`${property}\``, actual, expected, false)
       );
-    }
-    return elem.hasAttribute(name);
+    return {
+      pass: mismatches.length === 0,
+      actual,
+      expected: styles,
+      reason: mismatches.length
+        ? mismatches.join('; ')
+        : `all ${Object.keys(styles).length} styles match`
+    };
   }
-  return false;
+  return {
+    pass: false,
+    actual: null,
+    expected: styles,
+    reason: notAnElement(node)
+  };
 };
 
 /**
- * Checks if an element has a certain class name
- * @param elem element to be checked
- * @param name string with a class name or regular expression to check the whole class name attribute against.
- * @returns true if matched
+ * Options for hasHTMLContent
+ * @property semantic compare the parsed trees node by node instead of the serialized markup, defaults to false
+ * @property ignoreComments skip comments like Solid's markers in the semantic comparison, defaults to true
+ * @property ignoreWhitespace skip whitespace-only text and collapse whitespace in the semantic comparison, defaults to true
+ * @property ignoreAttributes names or regular expressions of attributes skipped in the semantic comparison, defaults to `['data-hk']`
  */
-export const hasClass = (elem: any, name: string | RegExp) =>
-  (elem instanceof HTMLElement || elem instanceof SVGElement) &&
-  name instanceof RegExp
-    ? name.test(elem.className)
-    : elem.classList.contains(name);
+export type HTMLContentOptions = {
+  semantic?: boolean;
+  ignoreComments?: boolean;
+  ignoreWhitespace?: boolean;
+  ignoreAttributes?: (string | RegExp)[];
+};
 
-/**
- * Checks if an element is described by other elements with a certain description
- * @deprecated use hasAccessibleDescription
- * @param elem element to be checked
- * @param description string or regular expression to check the description against.
- * @returns true if it matches
- */
-export const hasDescription = (elem: any, description: string | RegExp) => {
-  if (elem instanceof HTMLElement || elem instanceof SVGElement) {
-    const actual = (elem.getAttribute('aria-describedby') ?? '').replace(
-      /(\s*)(\S+)/g,
-      (_: string, space: string, descriptionId: string) => {
-        const descriptionNode =
-          descriptionId && elem.ownerDocument.getElementById(descriptionId);
-        return descriptionNode && /\S+/.test(descriptionNode.textContent || '')
-          ? space + descriptionNode.textContent
-          : '';
+const defaultHTMLContentOptions: Required<HTMLContentOptions> = {
+  semantic: false,
+  ignoreComments: true,
+  ignoreWhitespace: true,
+  ignoreAttributes: ['data-hk']
+};
+
+// presence is all that counts for boolean attributes, so their values are ignored
+const booleanAttributes = [
+  'allowfullscreen',
+  'async',
+  'autofocus',
+  'autoplay',
+  'checked',
+  'controls',
+  'default',
+  'defer',
+  'disabled',
+  'formnovalidate',
+  'hidden',
+  'inert',
+  'ismap',
+  'itemscope',
+  'loop',
+  'multiple',
+  'muted',
+  'nomodule',
+  'novalidate',
+  'open',
+  'playsinline',
+  'readonly',
+  'required',
+  'reversed',
+  'selected'
+];
+
+type ComparableNode =
+  | Element
+  | { nodeName: '#text' | '#comment'; data: string };
+
+const getComparableChildren = (
+  node: Node,
+  options: Required<HTMLContentOptions>
+) =>
+  Array.from(node.childNodes)
+    .reduce<ComparableNode[]>((children, child) => {
+      const last = children[children.length - 1];
+      if (child.nodeType === nodeTypes.text) {
+        // text split by skipped comments is compared as a whole
+        if (last && !isElement(last) && last.nodeName === '#text') {
+          last.data += (child as Text).data;
+        } else {
+          children.push({ nodeName: '#text', data: (child as Text).data });
+        }
+      } else if (isElement(child)) {
+        children.push(child);
+      } else if (
+        child.nodeType === nodeTypes.comment &&
+        !options.ignoreComments
+      ) {
+        children.push({ nodeName: '#comment', data: (child as Comment).data });
+      }
+      return children;
+    }, [])
+    .flatMap((child) => {
+      if (isElement(child) || !options.ignoreWhitespace) {
+        return [child];
       }
+      const data = child.data.replace(/\s+/g, ' ').trim();
+      return data ? [{ ...child, data }] : [];
+    });
+
+const getComparableAttributes = (
+  elem: Element,
+  options: Required<HTMLContentOptions>
+) =>
+  Array.from(elem.attributes)
+    .filter(
+      ({ name }) =>
+        !options.ignoreAttributes.some((ignored) =>
+          ignored instanceof RegExp ? ignored.test(name) : ignored === name
+        )
+    )
+    .reduce<Record<string, string>>((attributes, { name, value }) => {
+      attributes[name] =
+        name === 'class'
+          ? value.split(/\s+/).filter(Boolean).sort().join(' ')
+          : booleanAttributes.includes(name)
+          ? ''
+          : value;
+      return attributes;
+    }, {});
+
+const describeComparableNode = (node: ComparableNode) =>
+  isElement(node)
+    ? describeNode(node)
+    : `${node.nodeName.slice(1)} ${formatValue(node.data)}`;
+
+const compareNodes = (
+  actual: ComparableNode | undefined,
+  expected: ComparableNode | undefined,
+  options: Required<HTMLContentOptions>,
+  path: string
+): string | undefined => {
+  if (!actual || !expected) {
+    return actual
+      ? `${path}: unexpected ${describeComparableNode(actual)}`
+      : `${path}: missing ${describeComparableNode(
+          expected as ComparableNode
+        )}`;
+  }
+  if (actual.nodeName.toLowerCase() !== expected.nodeName.toLowerCase()) {
+    return `${path}: expected ${describeComparableNode(
+      expected
+    )}, got ${describeComparableNode(actual)}`;
+  }
+  if (!isElement(actual) || !isElement(expected)) {
+    const [actualData, expectedData] = [actual, expected].map((node) =>
+      isElement(node) ? '' : node.data
     );
-    return description instanceof RegExp
-      ? description.test(actual)
-      : actual.indexOf(description) !== -1;
+    return actualData === expectedData
+      ? undefined
+      : describeComparison(path, actualData, expectedData, false);
   }
-  return false;
+  const actualAttributes = getComparableAttributes(actual, options);
+  const expectedAttributes = getComparableAttributes(expected, options);
+  const attribute = [
+    ...new Set([
+      ...Object.keys(actualAttributes),
+      ...Object.keys(expectedAttributes)
+    ])
+  ]
+    .sort()
+    .find((name) => actualAttributes[name] !== expectedAttributes[name]);
+  return attribute
+    ? describeComparison(
+        `${path} attribute \`${attribute}\``,
+        actualAttributes[attribute] ?? null,
+        expectedAttributes[attribute] ?? null,
+        false
+      )
+    : findHTMLDifference(actual, expected, options, path);
 };
 
+// returns the path and description of the first difference between the children of both nodes
+const findHTMLDifference = (
+  actual: Node,
+  expected: Node,
+  options: Required<HTMLContentOptions>,
+  path = ''
+): string | undefined => {
+  const actualChildren = getComparableChildren(actual, options);
+  const expectedChildren = getComparableChildren(expected, options);
+  return Array.from(
+    { length: Math.max(actualChildren.length, expectedChildren.length) },
+    (_, index) => index
+  ).reduce<string | undefined>((difference, index) => {
+    const node = expectedChildren[index] ?? actualChildren[index];
+    return (
+      difference ??
+      compareNodes(
+        actualChildren[index],
+        expectedChildren[index],
+        options,
+        `${path ? `${path} > ` : ''}${node.nodeName.toLowerCase()}[${index}]`
+      )
+    );
+  }, undefined);
+};
+
+const parseHTML = (elem: Element, html: string) =>
+  Object.assign(elem.ownerDocument.createElement('div'), {
+    innerHTML: html
+  });
+
+const normalizeHTML = (elem: Element, html: string) =>
+  parseHTML(elem, html).innerHTML;
+
 /**
- * Checks if an form element has a shown value
+ * Check if the HTML content of the element is as the html
  * @param elem element to be checked
- * @param value string, regular expression or for select/multiple an array thereof
- * @returns true if display value matches
+ * @param html content that is expected
+ * @param options optional semantic comparison and what it ignores, see HTMLContentOptions
+ * @returns true if elem contains html in its innerHTML
  */
-export const hasDisplayValue = (
+export const hasHTMLContent = (
   elem: any,
-  value: string | RegExp | (string | RegExp)[]
+  html: string,
+  options?: HTMLContentOptions
 ) => {
-  if (
-    elem instanceof HTMLSelectElement ||
-    elem instanceof HTMLTextAreaElement ||
-    (elem instanceof HTMLInputElement &&
-      !['radio', 'checkbox'].includes(elem.type))
-  ) {
-    const values = Array.isArray(value) ? value : [value];
-    const actual =
-      'options' in elem
-        ? [...elem.options]
-            .filter((option) => option.selected)
-            .map((option) => option.textContent ?? '')
-        : [elem.value];
-    return values.every((value, index) =>
-      value instanceof RegExp
-        ? value.test(actual[index])
-        : actual[index]?.indexOf(value) !== -1
-    );
+  if (isHTMLOrSVGElement(elem)) {
+    const settings = { ...defaultHTMLContentOptions, ...options };
+    return settings.semantic
+      ? findHTMLDifference(elem, parseHTML(elem, html), settings) === undefined
+      : elem.innerHTML === normalizeHTML(elem, html);
   }
   return false;
 };
 
 /**
- * Checks if descendant is inside ancestor
- * @param ancestor element to be checked
- * @param descendant element to be checked
- * @returns true if descendant is a descendant of ancestor
+ * Explains if the HTML content of the element is as the html
+ * @param elem element to be checked
+ * @param html content that is expected
+ * @param options optional semantic comparison and what it ignores, see HTMLContentOptions
+ * @returns result with the innerHTML as actual and the normalized html as expected value and the path of the first difference in the reason for the semantic comparison
  */
-export const hasElement = (ancestor: any, descendant: any): boolean =>
-  (ancestor instanceof HTMLElement || ancestor instanceof SVGElement) &&
-  (descendant instanceof HTMLElement || descendant instanceof SVGElement) &&
-  ancestor.contains(descendant);
-
-/**
- * Checks if a form element is invalid and has an accessible error message
- * @param elem element to be checked
- * @param message string or regular expression to check against the message
- * @returns true if field is invalid and has an accessible error message matching the message attribute
- */
-export const hasErrorMessage = (elem: any, message: string | RegExp) => {
-  if (isInvalid(elem)) {
-    const actual = (elem.getAttribute('aria-errormessage') ?? '').replace(
-      /(\s*)(\S+)/g,
-      (_: string, space: string, messageId: string) => {
-        const messageNode =
-          messageId && elem.ownerDocument.getElementById(messageId);
-        return messageNode && /\S+/.test(messageNode.textContent || '')
-          ? space + messageNode.textContent
-          : '';
-      }
-    );
-    return message instanceof RegExp
-      ? message.test(actual)
-      : actual.indexOf(message) !== -1;
+export const explainHasHTMLContent = (
+  elem: any,
+  html: string,
+  options?: HTMLContentOptions
+): Explanation<string | null, string> => {
+  if (isHTMLOrSVGElement(elem)) {
+    const settings = { ...defaultHTMLContentOptions, ...options };
+    const actual = elem.innerHTML;
+    const expected = normalizeHTML(elem, html);
+    if (settings.semantic) {
+      const difference = findHTMLDifference(
+        elem,
+        parseHTML(elem, html),
+        settings
+      );
+      return {
+        pass: difference === undefined,
+        actual,
+        expected,
+        reason: difference ?? 'HTML content is structurally equal'
+      };
+    }
+    return {
+      pass: actual === expected,
+      actual,
+      expected,
+      reason: describeComparison(
+        'HTML content',
+        actual,
+        expected,
+        actual === expected
+      )
+    };
   }
-  return false;
+  return {
+    pass: false,
+    actual: null,
+    expected: html,
+    reason: notAnElement(elem)
+  };
 };
 
 /**
- * Checks if the element has focus
+ * Check if the text content of the element matches the text
  * @param elem element to be checked
- * @returns true if element is focussed
+ * @param text content that is expected, regular expression or function to check the content against
+ * @param options optional text matching options, see TextMatchOptions; exact by default
+ * @returns true if the normalized textContent of elem matches text
  */
-export const hasFocus = (elem: any) =>
-  (elem instanceof HTMLElement || elem instanceof SVGElement) &&
-  (elem.ownerDocument ?? document).activeElement === elem;
+export const hasTextContent = (
+  elem: any,
+  text: TextMatch,
+  options?: TextMatchOptions
+) =>
+  isHTMLOrSVGElement(elem) &&
+  matchesText(elem.textContent ?? '', text, elem, options, true);
 
 /**
- * Checks if a form has certain values
- * @param elem form element to be checked
- * @param expected object with the values (multiple values for same-name checkboxes or multiselect fields go in an array, single checkboxes yield booleans, number inputs number); not all fields need to be expected
- * @returns true if form values match the expected values
- */
-export const hasFormValues = (elem: any, expected: Record<string, any>) => {
-  if (elem instanceof HTMLFormElement) {
-    const fields: (
-      | HTMLInputElement
-      | HTMLSelectElement
-      | HTMLTextAreaElement
-    )[] = Array.from(elem.querySelectorAll('input, select, textarea'));
-    const names = Array.from(
-      fields.reduce((nameSet, field) => {
-        if (field.name) {
-          nameSet.add(field.name);
-        }
-        return nameSet;
-      }, new Set<string>())
-    );
-    const values = names.reduce<Record<string, any>>((values, name) => {
-      const selected = fields.filter((field) => field.name === name);
-      if (selected.length > 1) {
-        values[name] =
-          selected[0].type === 'radio'
-            ? selected.find((field) => 'checked' in field && field.checked)
-                ?.value
-            : selected.reduce<string[]>((values, field) => {
-                if ('checked' in field && field.checked) {
-                  values.push(field.value);
-                }
-                return values;
-              }, []);
-      } else {
-        const field = selected[0];
-        if (field instanceof HTMLSelectElement) {
-          if (field.multiple) {
-            values[name] = Array.from(field.options)
-              .filter((option) => option.selected)
-              .map((option) => option.value);
-          } else {
-            values[name] = field.value;
-          }
-        } else if (field.type === 'number') {
-          values[name] = (field as HTMLInputElement).valueAsNumber;
-        } else if (['radio', 'checkbox'].includes(field.type)) {
-          values[name] = 'checked' in field && field.checked;
-        } else {
-          values[name] = field.value;
-        }
-      }
-      return values;
-    }, {});
-    return Object.keys(expected).every((name) => {
-      if (Array.isArray(expected[name])) {
-        return expected[name].every(
-          (value: any, index: number) => value === values[name]?.[index]
-        );
-      }
-      return expected[name] === values[name];
-    });
+ * Explains if the text content of the element matches the text
+ * @param elem element to be checked
+ * @param text content that is expected, regular expression or function to check the content against
+ * @param options optional text matching options, see TextMatchOptions; exact by default
+ * @returns result with the textContent as actual value
+ */
+export const explainHasTextContent = (
+  elem: any,
+  text: TextMatch,
+  options?: TextMatchOptions
+): Explanation<string | null, TextMatch> => {
+  const pass = hasTextContent(elem, text, options);
+  if (isHTMLOrSVGElement(elem)) {
+    return {
+      pass,
+      actual: elem.textContent,
+      expected: text,
+      reason: describeTextMatch(
+        'text content',
+        elem.textContent ?? '',
+        text,
+        pass,
+        options,
+        true
+      )
+    };
   }
-  return false;
+  return { pass, actual: null, expected: text, reason: notAnElement(elem) };
 };
 
 /**
- * Checks if a (pseudo)
- * @param elem element to be checked or [element, '::before' | '::after'] for pseudo element
- * @param expectedStyles styles object or string
- * @returns true if expected styles are set on the element
+ * Flags of the ValidityState of native form controls that can be expected by hasValidity
  */
-export const hasStyle = (
+export type ValidityFlags = Partial<
+  Record<
+    | 'badInput'
+    | 'customError'
+    | 'patternMismatch'
+    | 'rangeOverflow'
+    | 'rangeUnderflow'
+    | 'stepMismatch'
+    | 'tooLong'
+    | 'tooShort'
+    | 'typeMismatch'
+    | 'valid'
+    | 'valueMissing',
+    boolean
+  >
+>;
+
+const hasValidityState = (
+  elem: any
+): elem is HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement =>
+  isHTMLElement(elem) && 'validity' in elem && 'validationMessage' in elem;
+
+/**
+ * Checks if the native form control has certain validity flags
+ * @param elem element to be checked
+ * @param expected object with the expected flags, e.g. `{ valueMissing: true }`; flags that are left out are not checked
+ * @returns true if all expected flags match the validity state of the element
+ */
+export const hasValidity = (elem: any, expected: ValidityFlags): boolean =>
+  hasValidityState(elem) &&
+  (Object.keys(expected) as (keyof ValidityFlags)[]).every(
+    (flag) => elem.validity[flag] === expected[flag]
+  );
+
+/**
+ * Explains if the native form control has certain validity flags
+ * @param elem element to be checked
+ * @param expected object with the expected flags
+ * @returns result with the expected flags' actual values as actual value
+ */
+export const explainHasValidity = (
   elem: any,
-  expectedStyles: string | Record<string, string | RegExp>
-) => {
-  const [node, pseudo] = Array.isArray(elem) ? elem : [elem, undefined];
-  if (node instanceof HTMLElement || node instanceof SVGElement) {
-    const actual = window.getComputedStyle(node, pseudo);
-    const styles =
-      expectedStyles instanceof Object
-        ? expectedStyles
-        : expectedStyles
-            .split(/\s*;\s*/g)
-            .reduce<Record<string, string>>((styles, style) => {
-              const [key, value] = style.split(/\s*:\s*/);
-              if (key && value) {
-                styles[key] = value;
-              }
-              return styles;
-            }, {});
-
-    return Object.keys(styles).every((name) => {
-      const expected = styles[name];
-      const style = actual[name as any] || '';
-      return expected instanceof RegExp
-        ? expected.test(style)
-        : style === expected;
-    });
+  expected: ValidityFlags
+): Explanation<ValidityFlags | null, ValidityFlags> => {
+  if (!hasValidityState(elem)) {
+    return {
+      pass: false,
+      actual: null,
+      expected,
+      reason: `expected a form field, got ${describeNode(elem)}`
+    };
   }
-  return false;
+  const flags = Object.keys(expected) as (keyof ValidityFlags)[];
+  const actual = flags.reduce<ValidityFlags>((actual, flag) => {
+    actual[flag] = elem.validity[flag];
+    return actual;
+  }, {});
+  const mismatch = flags.find((flag) => actual[flag] !== expected[flag]);
+  return {
+    pass: mismatch === undefined,
+    actual,
+    expected,
+    reason: mismatch
+      ? describeComparison(
+          `validity ${mismatch}`,
+          actual[mismatch],
+          expected[mismatch],
+          false
+        )
+      : `${describeNode(elem)} has the expected validity`
+  };
 };
 
 /**
- * Check if the HTML content of the element is exactly as the html
+ * Checks if the native form control has a certain validation message
  * @param elem element to be checked
- * @param html content that is expected
- * @returns true if elem contains html in its innerHTML
+ * @param expected text that should be contained in the message, regular expression or function that should match it
+ * @param options optional text matching options, see TextMatchOptions
+ * @returns true if the validation message matches
  */
-export const hasHTMLContent = (elem: any, html: string) => {
-  if (elem instanceof HTMLElement || elem instanceof SVGElement) {
-    const div = Object.assign(elem.ownerDocument.createElement('div'), {
-      innerHTML: html
-    });
-    const normalizedHtml = div.innerHTML;
-    return elem.innerHTML === normalizedHtml;
-  }
-  return false;
-};
+export const hasValidationMessage = (
+  elem: any,
+  expected: TextMatch,
+  options?: TextMatchOptions
+) =>
+  hasValidityState(elem) &&
+  matchesText(elem.validationMessage, expected, elem, options, false);
 
 /**
- * Check if the text content of the element is exactly as the text
+ * Explains if the native form control has a certain validation message
  * @param elem element to be checked
- * @param text content that is expected
- * @returns true if elem contains text in its textContent
+ * @param expected text that should be contained in the message, regular expression or function that should match it
+ * @param options optional text matching options, see TextMatchOptions
+ * @returns result with the validation message as actual value
  */
-export const hasTextContent = (elem: any, text: string) =>
-  (elem instanceof HTMLElement || elem instanceof SVGElement) &&
-  elem.textContent === text;
+export const explainHasValidationMessage = (
+  elem: any,
+  expected: TextMatch,
+  options?: TextMatchOptions
+): Explanation<string | null, TextMatch> => {
+  const pass = hasValidationMessage(elem, expected, options);
+  const actual = hasValidityState(elem) ? elem.validationMessage : null;
+  return {
+    pass,
+    actual,
+    expected,
+    reason:
+      actual === null
+        ? `expected a form field, got ${describeNode(elem)}`
+        : describeTextMatch(
+            'validation message',
+            actual,
+            expected,
+            pass,
+            options,
+            false
+          )
+  };
+};
 
 /**
  * Checks if input/select/textarea has the given value
@@ -452,13 +3466,13 @@ export const hasTextContent = (elem: any, text: string) =>
  * @returns true if matches
  */
 export const hasValue = (elem: any, value: string | string[] | number) =>
-  elem instanceof HTMLTextAreaElement
+  isHTMLElementOf(elem, 'textarea')
     ? elem.value === value
-    : elem instanceof HTMLInputElement
+    : isHTMLElementOf(elem, 'input')
     ? elem.type === 'number'
       ? elem.valueAsNumber === value
       : elem.value === value
-    : elem instanceof HTMLSelectElement
+    : isHTMLElementOf(elem, 'select')
     ? elem.multiple
       ? [...elem.options]
           .filter((option) => option.selected)
@@ -468,3 +3482,44 @@ export const hasValue = (elem: any, value: string | string[] | number) =>
           )
       : elem.value === value
     : false;
+
+const getFieldValue = (elem: any): string | string[] | number | null =>
+  isHTMLElementOf(elem, 'textarea')
+    ? elem.value
+    : isHTMLElementOf(elem, 'input')
+    ? elem.type === 'number'
+      ? elem.valueAsNumber
+      : elem.value
+    : isHTMLElementOf(elem, 'select')
+    ? elem.multiple
+      ? [...elem.options]
+          .filter((option) => option.selected)
+          .map((option) => option.value)
+      : elem.value
+    : null;
+
+/**
+ * Explains if input/select/textarea has the given value
+ * @param elem element to be checked
+ * @param value to be checked against, number for number input, array for multiple select, otherwise string
+ * @returns result with the value of the field as actual value
+ */
+export const explainHasValue = (
+  elem: any,
+  value: string | string[] | number
+): Explanation<
+  string | string[] | number | null,
+  string | string[] | number
+> => {
+  const pass = hasValue(elem, value);
+  const actual = getFieldValue(elem);
+  return {
+    pass,
+    actual,
+    expected: value,
+    reason:
+      actual === null
+        ? `expected a form field, got ${describeNode(elem)}`
+        : describeComparison('value', actual, value, pass)
+  };
+};
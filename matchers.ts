@@ -0,0 +1,301 @@
+/// <reference types="vitest" />
+import {
+  AccessibilityAuditOptions,
+  CurrentToken,
+  ErrorMessageOptions,
+  Explanation,
+  explainHasAccessibleDescription,
+  explainHasAccessibleName,
+  explainHasAttribute,
+  explainHasClass,
+  explainHasCurrent,
+  explainHasDescription,
+  explainHasDisplayValue,
+  explainHasElement,
+  explainHasErrorMessage,
+  explainHasFocus,
+  explainHasFormValues,
+  explainHasRangeValue,
+  explainHasHTMLContent,
+  explainHasRole,
+  explainHasStyle,
+  explainHasTextContent,
+  explainHasValidationMessage,
+  explainHasValidity,
+  explainHasValue,
+  explainIsAccessible,
+  explainIsBusy,
+  explainIsChecked,
+  explainIsDisabled,
+  explainIsEmpty,
+  explainIsEmptyDomElement,
+  explainIsEnabled,
+  explainIsExpanded,
+  explainIsExposedToAccessibilityTree,
+  explainIsInaccessible,
+  explainIsInDocument,
+  explainIsInvalid,
+  explainIsPartiallyChecked,
+  explainIsPressed,
+  explainIsRequired,
+  explainIsSelected,
+  explainIsValid,
+  explainIsVisible,
+  HTMLContentOptions,
+  prettyDOM,
+  RangeValue,
+  TextMatch,
+  TextMatchOptions,
+  ValidityFlags,
+  VisibilityOptions
+} from './index';
+
+export interface DomMatchers<R = unknown> {
+  toBeAccessible(options?: AccessibilityAuditOptions): R;
+  toBeBusy(): R;
+  toBeChecked(): R;
+  toBeDisabled(): R;
+  toBeEnabled(): R;
+  toBeEmptyDOMElement(): R;
+  /** @deprecated use toBeEmptyDOMElement */
+  toBeEmpty(): R;
+  toBeExpanded(): R;
+  toBeExposedToAccessibilityTree(): R;
+  toBeInaccessible(): R;
+  toBeInTheDocument(): R;
+  toBeInvalid(): R;
+  toBePartiallyChecked(): R;
+  toBePressed(state?: true | 'mixed'): R;
+  toBeValid(): R;
+  toBeRequired(): R;
+  toBeSelected(): R;
+  toBeVisible(options?: VisibilityOptions): R;
+  toHaveAccessibleDescription(
+    expected?: TextMatch,
+    options?: TextMatchOptions
+  ): R;
+  toHaveAccessibleName(expected?: TextMatch, options?: TextMatchOptions): R;
+  toHaveAttribute(
+    name: string,
+    expected?: TextMatch,
+    options?: TextMatchOptions
+  ): R;
+  toHaveClass(...classNames: (string | RegExp | { exact: boolean })[]): R;
+  toHaveCurrent(expected?: CurrentToken | true): R;
+  /** @deprecated use toHaveAccessibleDescription */
+  toHaveDescription(description: TextMatch, options?: TextMatchOptions): R;
+  toHaveDisplayValue(
+    value: TextMatch | TextMatch[],
+    options?: TextMatchOptions
+  ): R;
+  toContainElement(descendant: any): R;
+  toHaveErrorMessage(message: TextMatch, options?: ErrorMessageOptions): R;
+  toHaveFocus(): R;
+  toHaveFormValues(expected: Record<string, any>): R;
+  toHaveRangeValue(expected: RangeValue): R;
+  toHaveStyle(css: string | Record<string, string | RegExp>): R;
+  toHaveHTMLContent(html: string, options?: HTMLContentOptions): R;
+  toHaveRole(role: string): R;
+  toHaveTextContent(text: TextMatch, options?: TextMatchOptions): R;
+  toHaveValidationMessage(expected: TextMatch, options?: TextMatchOptions): R;
+  toHaveValidity(expected: ValidityFlags): R;
+  toHaveValue(value: string | string[] | number): R;
+}
+
+declare module 'vitest' {
+  interface Assertion<T = any> extends DomMatchers<T> {}
+  interface AsymmetricMatchersContaining extends DomMatchers {}
+}
+
+type MatcherContext = { isNot?: boolean };
+
+type MatcherResult = {
+  pass: boolean;
+  message: () => string;
+  actual: unknown;
+  expected: unknown;
+};
+
+const toMatcherResult = (
+  context: MatcherContext,
+  matcherName: string,
+  result: Explanation<unknown, unknown>,
+  received: any
+): MatcherResult => ({
+  pass: result.pass,
+  message: () =>
+    `expect(element).${context?.isNot ? 'not.' : ''}${matcherName}(): ${
+      result.reason
+    }${
+      typeof received?.nodeType === 'number' ? `\n\n${prettyDOM(received)}` : ''
+    }`,
+  actual: result.actual,
+  expected: result.expected
+});
+
+const toExplanationMatcher = <Args extends any[]>(
+  matcherName: string,
+  explain: (elem: any, ...args: Args) => Explanation<unknown, unknown>
+) =>
+  function (this: MatcherContext, received: any, ...args: Args) {
+    return toMatcherResult(
+      this,
+      matcherName,
+      explain(received, ...args),
+      received
+    );
+  };
+
+/**
+ * Matchers for expect.extend with the names and arguments of @testing-library/jest-dom, e.g.
+ * `expect.extend(matchers)` to use `expect(elem).toBeVisible()`
+ */
+export const matchers = {
+  toBeAccessible: toExplanationMatcher('toBeAccessible', explainIsAccessible),
+  toBeBusy: toExplanationMatcher('toBeBusy', explainIsBusy),
+  toBeChecked: toExplanationMatcher('toBeChecked', explainIsChecked),
+  toBeDisabled: toExplanationMatcher('toBeDisabled', explainIsDisabled),
+  toBeEnabled: toExplanationMatcher('toBeEnabled', explainIsEnabled),
+  toBeEmptyDOMElement: toExplanationMatcher(
+    'toBeEmptyDOMElement',
+    explainIsEmptyDomElement
+  ),
+  toBeEmpty: toExplanationMatcher('toBeEmpty', explainIsEmpty),
+  toBeExpanded: toExplanationMatcher('toBeExpanded', explainIsExpanded),
+  toBeExposedToAccessibilityTree: toExplanationMatcher(
+    'toBeExposedToAccessibilityTree',
+    explainIsExposedToAccessibilityTree
+  ),
+  toBeInaccessible: toExplanationMatcher(
+    'toBeInaccessible',
+    explainIsInaccessible
+  ),
+  toBeInTheDocument: toExplanationMatcher(
+    'toBeInTheDocument',
+    explainIsInDocument
+  ),
+  toBeInvalid: toExplanationMatcher('toBeInvalid', explainIsInvalid),
+  toBePartiallyChecked: toExplanationMatcher(
+    'toBePartiallyChecked',
+    explainIsPartiallyChecked
+  ),
+  toBePressed: toExplanationMatcher('toBePressed', explainIsPressed),
+  toBeValid: toExplanationMatcher('toBeValid', explainIsValid),
+  toBeRequired: toExplanationMatcher('toBeRequired', explainIsRequired),
+  toBeSelected: toExplanationMatcher('toBeSelected', explainIsSelected),
+  toBeVisible: toExplanationMatcher('toBeVisible', explainIsVisible),
+  toHaveAccessibleDescription: toExplanationMatcher(
+    'toHaveAccessibleDescription',
+    explainHasAccessibleDescription
+  ),
+  toHaveAccessibleName: toExplanationMatcher(
+    'toHaveAccessibleName',
+    explainHasAccessibleName
+  ),
+  // jest-dom compares attribute values without normalizing whitespace
+  toHaveAttribute: toExplanationMatcher(
+    'toHaveAttribute',
+    (
+      elem: any,
+      name: string,
+      expected?: TextMatch,
+      options?: TextMatchOptions
+    ) =>
+      explainHasAttribute(elem, name, expected, {
+        normalizer: (text) => text,
+        ...options
+      })
+  ),
+  toHaveClass: function (
+    this: MatcherContext,
+    received: any,
+    ...args: (string | RegExp | { exact?: boolean })[]
+  ) {
+    const last = args[args.length - 1];
+    const { exact = false } =
+      last instanceof Object && !(last instanceof RegExp) ? last : {};
+    const names = args.flatMap<string | RegExp>((name) =>
+      typeof name === 'string'
+        ? name.split(/\s+/).filter(Boolean)
+        : name instanceof RegExp
+        ? [name]
+        : []
+    );
+    const actual =
+      // the node type of elements, as the global Node may be missing or from another realm
+      received?.nodeType === 1 ? received.getAttribute('class') ?? '' : null;
+    const classes = actual?.split(/\s+/).filter(Boolean) ?? [];
+    const failed = (names.length ? names : [/\S/])
+      .map((name) => explainHasClass(received, name))
+      .find((result) => !result.pass);
+    const pass = !failed && (!exact || classes.length === names.length);
+    return toMatcherResult(
+      this,
+      'toHaveClass',
+      {
+        pass,
+        actual,
+        expected: names,
+        reason:
+          failed?.reason ??
+          (pass || !exact
+            ? `class: '${actual}'`
+            : `class: expected exactly '${names.join(' ')}', got '${actual}'`)
+      },
+      received
+    );
+  },
+  toHaveCurrent: toExplanationMatcher('toHaveCurrent', explainHasCurrent),
+  toHaveDescription: toExplanationMatcher(
+    'toHaveDescription',
+    explainHasDescription
+  ),
+  // jest-dom matches display values exactly
+  toHaveDisplayValue: toExplanationMatcher(
+    'toHaveDisplayValue',
+    (elem: any, value: TextMatch | TextMatch[], options?: TextMatchOptions) =>
+      explainHasDisplayValue(elem, value, { exact: true, ...options })
+  ),
+  toContainElement: toExplanationMatcher('toContainElement', explainHasElement),
+  toHaveErrorMessage: toExplanationMatcher(
+    'toHaveErrorMessage',
+    explainHasErrorMessage
+  ),
+  toHaveFocus: toExplanationMatcher('toHaveFocus', explainHasFocus),
+  toHaveFormValues: toExplanationMatcher(
+    'toHaveFormValues',
+    explainHasFormValues
+  ),
+  toHaveRangeValue: toExplanationMatcher(
+    'toHaveRangeValue',
+    explainHasRangeValue
+  ),
+  toHaveStyle: toExplanationMatcher('toHaveStyle', explainHasStyle),
+  toHaveHTMLContent: toExplanationMatcher(
+    'toHaveHTMLContent',
+    explainHasHTMLContent
+  ),
+  toHaveRole: toExplanationMatcher('toHaveRole', explainHasRole),
+  // jest-dom matches text content as a substring
+  toHaveTextContent: toExplanationMatcher(
+    'toHaveTextContent',
+    (elem: any, text: TextMatch, options?: TextMatchOptions) =>
+      explainHasTextContent(elem, text, { exact: false, ...options })
+  ),
+  toHaveValidationMessage: toExplanationMatcher(
+    'toHaveValidationMessage',
+    explainHasValidationMessage
+  ),
+  toHaveValidity: toExplanationMatcher('toHaveValidity', explainHasValidity),
+  toHaveValue: toExplanationMatcher('toHaveValue', explainHasValue)
+};
+
+/**
+ * Snapshot serializer printing DOM nodes with prettyDOM without truncation, e.g.
+ * `expect.addSnapshotSerializer(domSerializer)` to snapshot elements as indented markup
+ */
+export const domSerializer = {
+  test: (value: unknown) =>
+    typeof (value as Node | null)?.nodeType === 'number',
+  serialize: (value: Node) => prettyDOM(value, { maxLength: Infinity })
+};
@@ -0,0 +1,237 @@
+import {
+  computeAccessibleDescription,
+  computeAccessibleName
+} from 'dom-accessibility-api';
+import {
+  getRole,
+  isChecked,
+  isInaccessible,
+  prettyDOM,
+  TextMatch,
+  TextMatchOptions,
+  waitFor,
+  WaitForOptions
+} from './index';
+import { matchesText } from './textMatch';
+
+/**
+ * Options to filter the elements found by role, besides the text matching options for name and description
+ * @property name string (exact match by default), regular expression or function to match the normalized accessible name
+ * @property description string (exact match by default), regular expression or function to match the normalized accessible description
+ * @property checked only find elements that are (not) checked
+ * @property expanded only find elements with aria-expanded set to true/false
+ * @property hidden also find elements that are excluded from the accessibility tree, defaults to false
+ */
+export type ByRoleOptions = TextMatchOptions & {
+  name?: TextMatch;
+  description?: TextMatch;
+  checked?: boolean;
+  expanded?: boolean;
+  hidden?: boolean;
+};
+
+type Container = Element | Document;
+
+const matchesOptions = (elem: Element, options: ByRoleOptions) =>
+  (options.hidden || !isInaccessible(elem)) &&
+  (options.checked === undefined || isChecked(elem) === options.checked) &&
+  (options.expanded === undefined ||
+    elem.getAttribute('aria-expanded') === String(options.expanded)) &&
+  (options.name === undefined ||
+    matchesText(
+      computeAccessibleName(elem),
+      options.name,
+      elem,
+      options,
+      true
+    )) &&
+  (options.description === undefined ||
+    matchesText(
+      computeAccessibleDescription(elem),
+      options.description,
+      elem,
+      options,
+      true
+    ));
+
+const describeQuery = (role: string, options: ByRoleOptions) =>
+  [
+    `the role "${role}"`,
+    options.name !== undefined && `name ${formatMatcher(options.name)}`,
+    options.description !== undefined &&
+      `description ${formatMatcher(options.description)}`,
+    options.checked !== undefined && `checked: ${options.checked}`,
+    options.expanded !== undefined && `expanded: ${options.expanded}`
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+const formatMatcher = (matcher: NonNullable<ByRoleOptions['name']>) =>
+  typeof matcher === 'string' ? `"${matcher}"` : String(matcher);
+
+// roles without semantics are left out of the candidates as they cannot be meant by the query
+const uninterestingRoles = ['generic', 'none', 'presentation'];
+
+const describeCandidates = (container: Container, hidden = false) => {
+  const candidates = Array.from(container.querySelectorAll('*')).reduce<
+    Record<string, string[]>
+  >((candidates, elem) => {
+    const role = getRole(elem);
+    if (
+      role &&
+      !uninterestingRoles.includes(role) &&
+      (hidden || !isInaccessible(elem))
+    ) {
+      (candidates[role] = candidates[role] ?? []).push(
+        `"${computeAccessibleName(elem)}"`
+      );
+    }
+    return candidates;
+  }, {});
+  const roles = Object.keys(candidates).sort();
+  return roles.length
+    ? `Here are the ${hidden ? '' : 'accessible '}roles:\n\n${roles
+        .map((role) => `  ${role}: ${candidates[role].join(', ')}`)
+        .join('\n')}`
+    : `There are no ${hidden ? '' : 'accessible '}roles.`;
+};
+
+/**
+ * Finds all elements in the container with a certain (explicit or implicit) role
+ * @param container element or document to search in
+ * @param role the role to search for
+ * @param options optional filters for name, description, checked, expanded and hidden elements
+ * @returns array of all matching elements
+ */
+export const queryAllByRole = (
+  container: Container,
+  role: string,
+  options: ByRoleOptions = {}
+): Element[] =>
+  Array.from(container.querySelectorAll('*')).filter(
+    (elem) => getRole(elem) === role && matchesOptions(elem, options)
+  );
+
+/**
+ * Finds the single element in the container with a certain role
+ * @param container element or document to search in
+ * @param role the role to search for
+ * @param options optional filters for name, description, checked, expanded and hidden elements
+ * @returns the matching element or null if there is none
+ * @throws {Error} if more than one element matches
+ */
+export const queryByRole = (
+  container: Container,
+  role: string,
+  options: ByRoleOptions = {}
+): Element | null => {
+  const elements = queryAllByRole(container, role, options);
+  if (elements.length > 1) {
+    throw new Error(
+      `Found ${elements.length} elements with ${describeQuery(
+        role,
+        options
+      )}: ${elements
+        .map((elem) => `"${computeAccessibleName(elem)}"`)
+        .join(', ')}\n\n${describeCandidates(
+        container,
+        options.hidden
+      )}\n\n${prettyDOM(container)}`
+    );
+  }
+  return elements[0] ?? null;
+};
+
+/**
+ * Finds at least one element in the container with a certain role
+ * @param container element or document to search in
+ * @param role the role to search for
+ * @param options optional filters for name, description, checked, expanded and hidden elements
+ * @returns array of all matching elements
+ * @throws {Error} if no element matches
+ */
+export const getAllByRole = (
+  container: Container,
+  role: string,
+  options: ByRoleOptions = {}
+): Element[] => {
+  const elements = queryAllByRole(container, role, options);
+  if (elements.length === 0) {
+    throw new Error(
+      `Unable to find an element with ${describeQuery(
+        role,
+        options
+      )}\n\n${describeCandidates(container, options.hidden)}\n\n${prettyDOM(
+        container
+      )}`
+    );
+  }
+  return elements;
+};
+
+/**
+ * Finds exactly one element in the container with a certain role
+ * @param container element or document to search in
+ * @param role the role to search for
+ * @param options optional filters for name, description, checked, expanded and hidden elements
+ * @returns the matching element
+ * @throws {Error} if no or more than one element matches
+ */
+export const getByRole = (
+  container: Container,
+  role: string,
+  options: ByRoleOptions = {}
+): Element => {
+  getAllByRole(container, role, options);
+  return queryByRole(container, role, options) as Element;
+};
+
+/**
+ * Waits until at least one element in the container has a certain role
+ * @param container element or document to search in
+ * @param role the role to search for
+ * @param options optional filters for name, description, checked, expanded and hidden elements
+ * @param waitForOptions optional timeout and interval, see waitFor
+ * @returns promise resolving with the matching elements or rejecting with the last error on timeout
+ */
+export const findAllByRole = async (
+  container: Container,
+  role: string,
+  options: ByRoleOptions = {},
+  waitForOptions?: WaitForOptions
+): Promise<Element[]> => {
+  let elements: Element[] = [];
+  await waitFor(
+    () => {
+      elements = getAllByRole(container, role, options);
+      return true;
+    },
+    { container, ...waitForOptions }
+  );
+  return elements;
+};
+
+/**
+ * Waits until exactly one element in the container has a certain role
+ * @param container element or document to search in
+ * @param role the role to search for
+ * @param options optional filters for name, description, checked, expanded and hidden elements
+ * @param waitForOptions optional timeout and interval, see waitFor
+ * @returns promise resolving with the matching element or rejecting with the last error on timeout
+ */
+export const findByRole = async (
+  container: Container,
+  role: string,
+  options: ByRoleOptions = {},
+  waitForOptions?: WaitForOptions
+): Promise<Element> => {
+  let element: Element | undefined;
+  await waitFor(
+    () => {
+      element = getByRole(container, role, options);
+      return true;
+    },
+    { container, ...waitForOptions }
+  );
+  return element as Element;
+};
@@ -0,0 +1,78 @@
+/**
+ * Expected text: a string, a regular expression or a function that receives the normalized text and the element
+ */
+export type TextMatch =
+  | string
+  | RegExp
+  | ((text: string, elem: Element) => boolean);
+
+/**
+ * Options how text is matched
+ * @property exact true if a string has to equal the text, false if it only has to be contained in it; the default depends on the predicate
+ * @property normalizer function to normalize the text before matching, replaces the default normalizer
+ * @property ignoreCase compare strings case-insensitively, defaults to false
+ * @property trim remove whitespace at the start and end of the text, defaults to true
+ * @property collapseWhitespace replace sequences of whitespace with a single space, defaults to true
+ */
+export type TextMatchOptions = {
+  exact?: boolean;
+  normalizer?: (text: string) => string;
+  ignoreCase?: boolean;
+  trim?: boolean;
+  collapseWhitespace?: boolean;
+};
+
+/**
+ * Creates the normalizer that is used for text matching unless another one is given
+ * @param options whether to trim and collapse whitespace, both default to true
+ * @returns function that normalizes the text
+ */
+export const getDefaultNormalizer =
+  ({
+    trim = true,
+    collapseWhitespace = true
+  }: Pick<TextMatchOptions, 'trim' | 'collapseWhitespace'> = {}) =>
+  (text: string) => {
+    const collapsed = collapseWhitespace ? text.replace(/\s+/g, ' ') : text;
+    return trim ? collapsed.trim() : collapsed;
+  };
+
+/**
+ * Normalizes the text with the normalizer from the options or the default normalizer
+ * @param text the text to be normalized
+ * @param options optional text matching options
+ * @returns the normalized text
+ */
+export const normalizeText = (text: string, options?: TextMatchOptions) =>
+  (options?.normalizer ?? getDefaultNormalizer(options))(text);
+
+/**
+ * Matches the normalized text against the expected string, regular expression or function
+ * @param text the text found on the element
+ * @param expected the expected text
+ * @param elem the element passed to matcher functions
+ * @param options optional text matching options
+ * @param exact whether strings have to equal the text unless the options say otherwise
+ * @returns true if the text matches
+ */
+export const matchesText = (
+  text: string,
+  expected: TextMatch,
+  elem: Element,
+  options: TextMatchOptions | undefined,
+  exact: boolean
+) => {
+  const normalized = normalizeText(text, options);
+  if (typeof expected === 'function') {
+    return expected(normalized, elem);
+  }
+  if (expected instanceof RegExp) {
+    return expected.test(normalized);
+  }
+  const [actual, wanted] = options?.ignoreCase
+    ? [normalized.toLowerCase(), expected.toLowerCase()]
+    : [normalized, expected];
+  return options?.exact ?? exact
+    ? actual === wanted
+    : actual.indexOf(wanted) !== -1;
+};
@@ -0,0 +1,653 @@
+import { Assertion, Message } from 'uvu/assert';
+import { compare } from 'uvu/diff';
+import {
+  AccessibilityAuditOptions,
+  CurrentToken,
+  ErrorMessageOptions,
+  Explanation,
+  explainHasAccessibleDescription,
+  explainHasAccessibleName,
+  explainHasAttribute,
+  explainHasClass,
+  explainHasCurrent,
+  explainHasDescription,
+  explainHasDisplayValue,
+  explainHasElement,
+  explainHasErrorMessage,
+  explainHasFocus,
+  explainHasFormValues,
+  explainHasRangeValue,
+  explainHasHTMLContent,
+  explainHasRole,
+  explainHasStyle,
+  explainHasTextContent,
+  explainHasValidationMessage,
+  explainHasValidity,
+  explainHasValue,
+  explainIsAccessible,
+  explainIsBusy,
+  explainIsChecked,
+  explainIsDisabled,
+  explainIsEmpty,
+  explainIsEmptyDomElement,
+  explainIsEnabled,
+  explainIsExpanded,
+  explainIsExposedToAccessibilityTree,
+  explainIsInaccessible,
+  explainIsInDocument,
+  explainIsInvalid,
+  explainIsPartiallyChecked,
+  explainIsPressed,
+  explainIsRequired,
+  explainIsSelected,
+  explainIsValid,
+  explainIsVisible,
+  HTMLContentOptions,
+  prettyDOM,
+  RangeValue,
+  TextMatch,
+  TextMatchOptions,
+  ValidityFlags,
+  VisibilityOptions
+} from './index';
+
+const assertExplanation = (
+  result: Explanation<unknown, unknown>,
+  operator: string,
+  message: Message | undefined,
+  subject: unknown
+) => {
+  if (result.pass) {
+    return;
+  }
+  if (message instanceof Error) {
+    throw message;
+  }
+  throw new Assertion({
+    actual: result.actual,
+    expects: result.expected,
+    operator,
+    message:
+      message ||
+      (typeof (subject as Node | null)?.nodeType === 'number'
+        ? `${result.reason}\n\n${prettyDOM(subject)}`
+        : result.reason),
+    details:
+      typeof result.expected === 'boolean'
+        ? undefined
+        : compare(result.actual, result.expected),
+    generated: !message
+  });
+};
+
+/**
+ * Asserts that the container has none of the common accessibility issues of auditAccessibility
+ * @param container element or document to be tested
+ * @param options optional rules to check
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if there are accessibility violations
+ */
+export const assertAccessible = (
+  container: any,
+  options?: AccessibilityAuditOptions,
+  message?: Message
+) =>
+  assertExplanation(
+    explainIsAccessible(container, options),
+    'isAccessible',
+    message,
+    container
+  );
+
+/**
+ * Asserts that the radio/checkbox element is checked
+ * @param elem element to be tested
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the element is not checked
+ */
+export const assertChecked = (elem: any, message?: Message) =>
+  assertExplanation(explainIsChecked(elem), 'isChecked', message, elem);
+
+/**
+ * Asserts that the checkbox element is partially checked
+ * @param elem element to be tested
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the element is not partially checked
+ */
+export const assertPartiallyChecked = (elem: any, message?: Message) =>
+  assertExplanation(
+    explainIsPartiallyChecked(elem),
+    'isPartiallyChecked',
+    message,
+    elem
+  );
+
+/**
+ * Asserts that the element or a parent is disabled
+ * @param elem element to be tested
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the element is not disabled
+ */
+export const assertDisabled = (elem: any, message?: Message) =>
+  assertExplanation(explainIsDisabled(elem), 'isDisabled', message, elem);
+
+/**
+ * Asserts that the element is not disabled
+ * @param elem element to be tested
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the element is disabled or not an element
+ */
+export const assertEnabled = (elem: any, message?: Message) =>
+  assertExplanation(explainIsEnabled(elem), 'isEnabled', message, elem);
+
+/**
+ * Asserts that the argument is a DOM element without other DOM elements inside it
+ * @param elem element to be tested
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the element is not empty
+ */
+export const assertEmptyDomElement = (elem: any, message?: Message) =>
+  assertExplanation(
+    explainIsEmptyDomElement(elem),
+    'isEmptyDomElement',
+    message,
+    elem
+  );
+
+/**
+ * Asserts that the argument is a completely empty DOM element
+ * @deprecated use assertEmptyDomElement
+ * @param elem element to be tested
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the element is not empty
+ */
+export const assertEmpty = (elem: any, message?: Message) =>
+  assertExplanation(explainIsEmpty(elem), 'isEmpty', message, elem);
+
+/**
+ * Asserts that the argument is an element within the current document
+ * @param elem element to be tested
+ * @param doc optional to select a different document to test against, e.g. in an iframe
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the element is not in the document
+ */
+export const assertInDocument = (
+  elem: any,
+  doc = document,
+  message?: Message
+) =>
+  assertExplanation(
+    explainIsInDocument(elem, doc),
+    'isInDocument',
+    message,
+    elem
+  );
+
+/**
+ * Asserts that the element is excluded from the accessibility tree
+ * @param elem element to be tested
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the element is exposed to the accessibility tree
+ */
+export const assertInaccessible = (elem: any, message?: Message) =>
+  assertExplanation(
+    explainIsInaccessible(elem),
+    'isInaccessible',
+    message,
+    elem
+  );
+
+/**
+ * Asserts that the element is exposed to the accessibility tree
+ * @param elem element to be tested
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the element is excluded from the accessibility tree
+ */
+export const assertExposedToAccessibilityTree = (
+  elem: any,
+  message?: Message
+) =>
+  assertExplanation(
+    explainIsExposedToAccessibilityTree(elem),
+    'isExposedToAccessibilityTree',
+    message,
+    elem
+  );
+
+/**
+ * Asserts that the argument is an invalid form element
+ * @param elem element to be tested
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the element is not invalid
+ */
+export const assertInvalid = (elem: any, message?: Message) =>
+  assertExplanation(explainIsInvalid(elem), 'isInvalid', message, elem);
+
+/**
+ * Asserts that the argument is a valid form element
+ * @param elem element to be tested
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the element is not valid
+ */
+export const assertValid = (elem: any, message?: Message) =>
+  assertExplanation(explainIsValid(elem), 'isValid', message, elem);
+
+/**
+ * Asserts that the argument is an element that can be and is required
+ * @param elem element to be tested
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the element is not required
+ */
+export const assertRequired = (elem: any, message?: Message) =>
+  assertExplanation(explainIsRequired(elem), 'isRequired', message, elem);
+
+/**
+ * Asserts that the element is busy
+ * @param elem element to be tested
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the element is not busy
+ */
+export const assertBusy = (elem: any, message?: Message) =>
+  assertExplanation(explainIsBusy(elem), 'isBusy', message, elem);
+
+/**
+ * Asserts that the element is expanded
+ * @param elem element to be tested
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the element is collapsed or not expandable
+ */
+export const assertExpanded = (elem: any, message?: Message) =>
+  assertExplanation(explainIsExpanded(elem), 'isExpanded', message, elem);
+
+/**
+ * Asserts that the toggle button is pressed
+ * @param elem element to be tested
+ * @param state optional 'mixed' to check for a partially pressed button instead
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the pressed state does not match
+ */
+export const assertPressed = (
+  elem: any,
+  state: true | 'mixed' = true,
+  message?: Message
+) =>
+  assertExplanation(explainIsPressed(elem, state), 'isPressed', message, elem);
+
+/**
+ * Asserts that the element is selected
+ * @param elem element to be tested
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the element is not selected
+ */
+export const assertSelected = (elem: any, message?: Message) =>
+  assertExplanation(explainIsSelected(elem), 'isSelected', message, elem);
+
+/**
+ * Asserts that the element should be visible
+ * @param elem element to be tested
+ * @param options optional rules to skip, see VisibilityOptions
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the element is not visible
+ */
+export const assertVisible = (
+  elem: any,
+  options?: VisibilityOptions,
+  message?: Message
+) =>
+  assertExplanation(
+    explainIsVisible(elem, options),
+    'isVisible',
+    message,
+    elem
+  );
+
+/**
+ * Asserts that the element has an accessible description
+ * @param elem element to be tested
+ * @param expected optional text to be contained, regular expression or function to be checked against
+ * @param options optional text matching options, see TextMatchOptions
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the accessible description is missing or does not match
+ */
+export const assertHasAccessibleDescription = (
+  elem: any,
+  expected?: TextMatch,
+  options?: TextMatchOptions,
+  message?: Message
+) =>
+  assertExplanation(
+    explainHasAccessibleDescription(elem, expected, options),
+    'hasAccessibleDescription',
+    message,
+    elem
+  );
+
+/**
+ * Asserts that the element has an accessible name
+ * @param elem element to be tested
+ * @param expected optional text to be contained, regular expression or function to be checked against
+ * @param options optional text matching options, see TextMatchOptions
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the accessible name is missing or does not match
+ */
+export const assertHasAccessibleName = (
+  elem: any,
+  expected?: TextMatch,
+  options?: TextMatchOptions,
+  message?: Message
+) =>
+  assertExplanation(
+    explainHasAccessibleName(elem, expected, options),
+    'hasAccessibleName',
+    message,
+    elem
+  );
+
+/**
+ * Asserts that the element has a certain attribute (optionally with an expected value)
+ * @param elem element to be tested
+ * @param name of the attribute
+ * @param expected optional text, regular expression or function to check the value against
+ * @param options optional text matching options, see TextMatchOptions
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the attribute is missing or does not match
+ */
+export const assertHasAttribute = (
+  elem: any,
+  name: string,
+  expected?: TextMatch,
+  options?: TextMatchOptions,
+  message?: Message
+) =>
+  assertExplanation(
+    explainHasAttribute(elem, name, expected, options),
+    'hasAttribute',
+    message,
+    elem
+  );
+
+/**
+ * Asserts that the element has a certain class name
+ * @param elem element to be tested
+ * @param name string with a class name or regular expression to check the whole class name attribute against
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the class name is missing
+ */
+export const assertHasClass = (
+  elem: any,
+  name: string | RegExp,
+  message?: Message
+) => assertExplanation(explainHasClass(elem, name), 'hasClass', message, elem);
+
+/**
+ * Asserts that the element is the current item within a set
+ * @param elem element to be tested
+ * @param expected optional token like 'page' or 'step', defaults to true for any current item
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if aria-current does not match
+ */
+export const assertHasCurrent = (
+  elem: any,
+  expected: CurrentToken | true = true,
+  message?: Message
+) =>
+  assertExplanation(
+    explainHasCurrent(elem, expected),
+    'hasCurrent',
+    message,
+    elem
+  );
+
+/**
+ * Asserts that the element is described by other elements with a certain description
+ * @deprecated use assertHasAccessibleDescription
+ * @param elem element to be tested
+ * @param description text to be contained, regular expression or function to check the description against
+ * @param options optional text matching options, see TextMatchOptions
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the description does not match
+ */
+export const assertHasDescription = (
+  elem: any,
+  description: TextMatch,
+  options?: TextMatchOptions,
+  message?: Message
+) =>
+  assertExplanation(
+    explainHasDescription(elem, description, options),
+    'hasDescription',
+    message,
+    elem
+  );
+
+/**
+ * Asserts that the form element has a shown value
+ * @param elem element to be tested
+ * @param value text to be contained, regular expression, function or for select/multiple an array thereof
+ * @param options optional text matching options, see TextMatchOptions
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the display value does not match
+ */
+export const assertHasDisplayValue = (
+  elem: any,
+  value: TextMatch | TextMatch[],
+  options?: TextMatchOptions,
+  message?: Message
+) =>
+  assertExplanation(
+    explainHasDisplayValue(elem, value, options),
+    'hasDisplayValue',
+    message,
+    elem
+  );
+
+/**
+ * Asserts that descendant is inside ancestor
+ * @param ancestor element to be tested
+ * @param descendant element to be tested
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if descendant is not a descendant of ancestor
+ */
+export const assertHasElement = (
+  ancestor: any,
+  descendant: any,
+  message?: Message
+) =>
+  assertExplanation(
+    explainHasElement(ancestor, descendant),
+    'hasElement',
+    message,
+    ancestor
+  );
+
+/**
+ * Asserts that the form element is invalid and has a visible error message
+ * @param elem element to be tested
+ * @param expected text to be contained, regular expression or function to check against the message
+ * @param options optional sources of the error message and text matching options, see ErrorMessageOptions
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the element is valid or the error message does not match
+ */
+export const assertHasErrorMessage = (
+  elem: any,
+  expected: TextMatch,
+  options?: ErrorMessageOptions,
+  message?: Message
+) =>
+  assertExplanation(
+    explainHasErrorMessage(elem, expected, options),
+    'hasErrorMessage',
+    message,
+    elem
+  );
+
+/**
+ * Asserts that the element has focus
+ * @param elem element to be tested
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the element does not have focus
+ */
+export const assertHasFocus = (elem: any, message?: Message) =>
+  assertExplanation(explainHasFocus(elem), 'hasFocus', message, elem);
+
+/**
+ * Asserts that the form has certain values
+ * @param elem form element to be tested
+ * @param expected object with the values, see hasFormValues
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if one of the expected values does not match
+ */
+export const assertHasFormValues = (
+  elem: any,
+  expected: Record<string, any>,
+  message?: Message
+) =>
+  assertExplanation(
+    explainHasFormValues(elem, expected),
+    'hasFormValues',
+    message,
+    elem
+  );
+
+/**
+ * Asserts that the range widget has a certain value
+ * @param elem element to be tested
+ * @param expected object with the expected now, min, max and/or text
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if one of the expected properties does not match
+ */
+export const assertHasRangeValue = (
+  elem: any,
+  expected: RangeValue,
+  message?: Message
+) =>
+  assertExplanation(
+    explainHasRangeValue(elem, expected),
+    'hasRangeValue',
+    message,
+    elem
+  );
+
+/**
+ * Asserts that the element has a certain (explicit or implicit) role
+ * @param elem element to be tested
+ * @param role the expected role
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the role does not match
+ */
+export const assertHasRole = (elem: any, role: string, message?: Message) =>
+  assertExplanation(explainHasRole(elem, role), 'hasRole', message, elem);
+
+/**
+ * Asserts that the (pseudo) element has the expected styles
+ * @param elem element to be tested or [element, '::before' | '::after'] for pseudo element
+ * @param expectedStyles styles object or string
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if one of the expected styles does not match
+ */
+export const assertHasStyle = (
+  elem: any,
+  expectedStyles: string | Record<string, string | RegExp>,
+  message?: Message
+) =>
+  assertExplanation(
+    explainHasStyle(elem, expectedStyles),
+    'hasStyle',
+    message,
+    elem
+  );
+
+/**
+ * Asserts that the HTML content of the element is as the html
+ * @param elem element to be tested
+ * @param html content that is expected
+ * @param options optional semantic comparison and what it ignores, see HTMLContentOptions
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the HTML content does not match
+ */
+export const assertHasHTMLContent = (
+  elem: any,
+  html: string,
+  options?: HTMLContentOptions,
+  message?: Message
+) =>
+  assertExplanation(
+    explainHasHTMLContent(elem, html, options),
+    'hasHTMLContent',
+    message,
+    elem
+  );
+
+/**
+ * Asserts that the text content of the element matches the text
+ * @param elem element to be tested
+ * @param text content that is expected, regular expression or function to check the content against
+ * @param options optional text matching options, see TextMatchOptions
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the text content does not match
+ */
+export const assertHasTextContent = (
+  elem: any,
+  text: TextMatch,
+  options?: TextMatchOptions,
+  message?: Message
+) =>
+  assertExplanation(
+    explainHasTextContent(elem, text, options),
+    'hasTextContent',
+    message,
+    elem
+  );
+
+/**
+ * Asserts that the native form control has the expected validity flags
+ * @param elem element to be tested
+ * @param expected object with the expected flags, e.g. `{ valueMissing: true }`
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if a flag does not match
+ */
+export const assertHasValidity = (
+  elem: any,
+  expected: ValidityFlags,
+  message?: Message
+) =>
+  assertExplanation(
+    explainHasValidity(elem, expected),
+    'hasValidity',
+    message,
+    elem
+  );
+
+/**
+ * Asserts that the validation message of the native form control matches the expected text
+ * @param elem element to be tested
+ * @param expected text to be contained, regular expression or function to match
+ * @param options optional text matching options, see TextMatchOptions
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the validation message does not match
+ */
+export const assertHasValidationMessage = (
+  elem: any,
+  expected: TextMatch,
+  options?: TextMatchOptions,
+  message?: Message
+) =>
+  assertExplanation(
+    explainHasValidationMessage(elem, expected, options),
+    'hasValidationMessage',
+    message,
+    elem
+  );
+
+/**
+ * Asserts that input/select/textarea has the given value
+ * @param elem element to be tested
+ * @param value to be checked against, number for number input, array for multiple select, otherwise string
+ * @param message optional message or error to throw instead of the explanation
+ * @throws {Assertion} if the value does not match
+ */
+export const assertHasValue = (
+  elem: any,
+  value: string | string[] | number,
+  message?: Message
+) => assertExplanation(explainHasValue(elem, value), 'hasValue', message, elem);
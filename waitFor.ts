@@ -0,0 +1,146 @@
+import { prettyDOM } from './index';
+import type { Explanation } from './index';
+
+/**
+ * Options for waitFor and waitForElementToBeRemoved
+ * @property timeout maximum time to wait in milliseconds, defaults to 1000
+ * @property interval time between checks in milliseconds, defaults to 50
+ * @property container node observed for mutations, defaults to document
+ * @property mutationObserverOptions what mutations trigger a check, defaults to all within the container
+ */
+export type WaitForOptions = {
+  timeout?: number;
+  interval?: number;
+  container?: Node;
+  mutationObserverOptions?: MutationObserverInit;
+};
+
+const defaultMutationObserverOptions: MutationObserverInit = {
+  attributes: true,
+  characterData: true,
+  childList: true,
+  subtree: true
+};
+
+type FakeClock = { tick(ms: number): unknown };
+
+const getFakeClock = (): FakeClock | undefined => {
+  const { clock } = setTimeout as typeof setTimeout & { clock?: FakeClock };
+  return typeof clock?.tick === 'function' ? clock : undefined;
+};
+
+/**
+ * Waits until the callback returns true or a passing explanation; the callback is called on every DOM mutation inside the container and in an interval
+ * @param callback e.g. `() => hasTextContent(elem, 'Loaded')` or `() => explainIsVisible(elem)`, may also throw to signal failure
+ * @param options optional timeout, interval, container and mutationObserverOptions
+ * @returns promise resolving with the result of the callback or rejecting on timeout with the last error thrown by or explanation returned from the callback
+ */
+export const waitFor = <Result extends boolean | Explanation<unknown, unknown>>(
+  callback: () => Result,
+  {
+    timeout = 1000,
+    interval = 50,
+    container = document,
+    mutationObserverOptions = defaultMutationObserverOptions
+  }: WaitForOptions = {}
+): Promise<Result> =>
+  new Promise((resolve, reject) => {
+    let done = false;
+    let lastError: unknown;
+    let lastReason = 'callback was never called';
+    const observer = new MutationObserver(() => check());
+    const finish = () => {
+      done = true;
+      observer.disconnect();
+      clearInterval(intervalId);
+      clearTimeout(timeoutId);
+    };
+    const fail = () => {
+      finish();
+      reject(
+        lastError ??
+          new Error(
+            `timed out after ${timeout}ms: ${lastReason}\n\n${prettyDOM(
+              container
+            )}`
+          )
+      );
+    };
+    const check = () => {
+      if (done) {
+        return true;
+      }
+      try {
+        const result = callback();
+        if (result === true || (result instanceof Object && result.pass)) {
+          finish();
+          resolve(result);
+          return true;
+        }
+        lastError = undefined;
+        lastReason =
+          result instanceof Object ? result.reason : 'callback returned false';
+      } catch (error) {
+        lastError = error;
+      }
+      return false;
+    };
+    const clock = getFakeClock();
+    const intervalId = clock ? undefined : setInterval(check, interval);
+    const timeoutId = clock ? undefined : setTimeout(fail, timeout);
+    observer.observe(container, mutationObserverOptions);
+    if (clock) {
+      // fake timers will not advance on their own, so the clock is ticked manually
+      // a step of at least 1ms lets an interval of 0 still reach the timeout
+      const step = Math.max(interval, 1);
+      (async () => {
+        for (let elapsed = 0; !check(); elapsed += step) {
+          if (elapsed >= timeout) {
+            return fail();
+          }
+          clock.tick(step);
+          await Promise.resolve();
+        }
+      })();
+    } else {
+      check();
+    }
+  });
+
+/**
+ * Waits until the element(s) are removed from the document
+ * @param target element, array of elements or a callback returning the current element(s) or null
+ * @param options optional timeout, interval, container and mutationObserverOptions
+ * @returns promise resolving once the elements are removed or rejecting on timeout or if they are already removed
+ */
+export const waitForElementToBeRemoved = (
+  target: Element | Element[] | null | (() => Element | Element[] | null),
+  options?: WaitForOptions
+): Promise<void> => {
+  const getElements = () => {
+    const elements = typeof target === 'function' ? target() : target;
+    return (Array.isArray(elements) ? elements : [elements]).filter(
+      (elem): elem is Element => elem != null && elem.isConnected
+    );
+  };
+  const initial = getElements();
+  if (initial.length === 0) {
+    return Promise.reject(
+      new Error(
+        'the element(s) given to waitForElementToBeRemoved are already removed'
+      )
+    );
+  }
+  return waitFor(
+    (): Explanation<number> => {
+      const remaining = getElements().length;
+      return {
+        pass: remaining === 0,
+        actual: remaining,
+        expected: 0,
+        reason: `${remaining} element(s) still in the document`
+      };
+    },
+    { container: initial[0].ownerDocument, ...options }
+  ).then(() => undefined);
+};